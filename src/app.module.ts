@@ -4,6 +4,11 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { UrlFetcherModule } from './url-fetcher/url-fetcher.module';
 import { HealthModule } from './health/health.module';
 import { MetricsModule } from './metrics/metrics.module';
+import { MonitorsModule } from './monitors/monitors.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { SecurityModule } from './security/security.module';
+import { RobotsModule } from './robots/robots.module';
+import { CredentialsModule } from './credentials/credentials.module';
 
 @Module({
   imports: [
@@ -24,6 +29,11 @@ import { MetricsModule } from './metrics/metrics.module';
     UrlFetcherModule,
     HealthModule,
     MetricsModule,
+    MonitorsModule,
+    WebhooksModule,
+    SecurityModule,
+    RobotsModule,
+    CredentialsModule,
   ],
 })
 export class AppModule {} 
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+export const CREDENTIAL_CIPHER = 'CREDENTIAL_CIPHER';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const FORMAT_VERSION = 'v1';
+
+/**
+ * Encrypts credential secrets at rest with AES-256-GCM. Every secret gets its
+ * own random IV, and the stored value is `v1:<iv>:<auth tag>:<ciphertext>`,
+ * each part base64-encoded, so a tampered value fails to decrypt.
+ */
+export class CredentialCipher {
+  constructor(private readonly key: Buffer) {
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`The credentials encryption key must be ${KEY_BYTES} bytes, got ${key.length}`);
+    }
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+      .map(part => (Buffer.isBuffer(part) ? part.toString('base64') : part))
+      .join(':');
+  }
+
+  decrypt(encrypted: string): string {
+    const [version, iv, authTag, ciphertext] = encrypted.split(':');
+    if (version !== FORMAT_VERSION || ciphertext === undefined) {
+      throw new Error('Unrecognized encrypted secret format');
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, this.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  }
+}
+
+/**
+ * Creates the cipher from CREDENTIALS_ENCRYPTION_KEY, a 32-byte key written as
+ * 64 hex characters or in base64. Returns null when the key is not set, which
+ * leaves the credentials vault unavailable.
+ */
+export function loadCredentialCipher(env: NodeJS.ProcessEnv = process.env): CredentialCipher | null {
+  const value = env.CREDENTIALS_ENCRYPTION_KEY?.trim();
+  if (!value) {
+    return null;
+  }
+
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  return new CredentialCipher(key);
+}
@@ -0,0 +1,87 @@
+import { Controller, Post, Get, Patch, Delete, Body, HttpStatus, HttpCode, Param, BadRequestException } from '@nestjs/common';
+import { CredentialsService } from './credentials.service';
+import { CreateCredentialDto } from './dto/create-credential.dto';
+import { UpdateCredentialDto } from './dto/update-credential.dto';
+import { Credential } from './entities/credential.entity';
+
+@Controller('credentials')
+export class CredentialsController {
+  constructor(private readonly credentialsService: CredentialsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createCredential(@Body() createCredentialDto: CreateCredentialDto): Promise<{
+    message: string;
+    data: Credential;
+  }> {
+    const credential = await this.credentialsService.createCredential(createCredentialDto);
+
+    return {
+      message: 'Credential created',
+      data: credential,
+    };
+  }
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getCredentials(): Promise<{
+    message: string;
+    data: Credential[];
+    count: number;
+  }> {
+    const credentials = await this.credentialsService.getCredentials();
+
+    return {
+      message: 'Successfully retrieved credentials',
+      data: credentials,
+      count: credentials.length,
+    };
+  }
+
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getCredentialById(@Param('id') id: string): Promise<{
+    message: string;
+    data: Credential | null;
+  }> {
+    const credential = await this.credentialsService.getCredentialById(this.parseId(id));
+
+    return {
+      message: credential ? 'Credential found' : 'Credential not found',
+      data: credential,
+    };
+  }
+
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  async updateCredential(@Param('id') id: string, @Body() updateCredentialDto: UpdateCredentialDto): Promise<{
+    message: string;
+    data: Credential;
+  }> {
+    const credential = await this.credentialsService.updateCredential(this.parseId(id), updateCredentialDto);
+
+    return {
+      message: 'Credential updated',
+      data: credential,
+    };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async deleteCredential(@Param('id') id: string): Promise<{ message: string }> {
+    await this.credentialsService.deleteCredential(this.parseId(id));
+
+    return {
+      message: 'Credential deleted',
+    };
+  }
+
+  private parseId(id: string): number {
+    const parsedId = parseInt(id);
+    if (isNaN(parsedId)) {
+      throw new BadRequestException('Invalid ID format. ID must be a valid integer.');
+    }
+
+    return parsedId;
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { CredentialsController } from './credentials.controller';
+import { UrlFetcherModule } from '../url-fetcher/url-fetcher.module';
+
+@Module({
+  imports: [UrlFetcherModule],
+  controllers: [CredentialsController],
+})
+export class CredentialsModule {}
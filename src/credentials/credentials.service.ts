@@ -0,0 +1,217 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  Optional,
+  BadRequestException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { PostgresService } from '../integrations/postgres/postgres.service';
+import { compileHostPattern } from '../integrations/security/host-matching';
+import { CredentialResolver, ResolvedCredential } from '../integrations/http/http.service';
+import { CREDENTIAL_CIPHER, CredentialCipher, loadCredentialCipher } from './credential-cipher';
+import { CreateCredentialDto, MIN_SECRET_LENGTH } from './dto/create-credential.dto';
+import { UpdateCredentialDto } from './dto/update-credential.dto';
+import { Credential, CredentialType } from './entities/credential.entity';
+
+// Credentials changed through another instance are picked up after this long
+const CREDENTIALS_CACHE_TTL_MS = 60 * 1000;
+
+interface CompiledCredential {
+  hostPattern: RegExp;
+  // Longer patterns are more specific and win over shorter ones
+  specificity: number;
+  resolved: ResolvedCredential;
+}
+
+@Injectable()
+export class CredentialsService implements CredentialResolver {
+  private readonly logger = new Logger(CredentialsService.name);
+  private readonly cipher: CredentialCipher | null;
+
+  private compiled: Promise<CompiledCredential[]> | null = null;
+  private compiledAt = 0;
+
+  constructor(
+    private readonly postgresService: PostgresService,
+    @Optional() @Inject(CREDENTIAL_CIPHER) cipher?: CredentialCipher,
+  ) {
+    this.cipher = cipher ?? loadCredentialCipher();
+  }
+
+  async createCredential(createCredentialDto: CreateCredentialDto): Promise<Credential> {
+    const cipher = this.requireCipher();
+    const { name, hostPattern, type, username, headerName, secret, enabled } = createCredentialDto;
+    this.validateShape(type, username, headerName);
+
+    const credential = await this.postgresService.createCredential({
+      name,
+      hostPattern: hostPattern.toLowerCase(),
+      type,
+      username: type === 'basic' ? username : null,
+      headerName: type === 'header' ? headerName : null,
+      encryptedSecret: cipher.encrypt(secret),
+      enabled: enabled ?? true,
+    });
+
+    this.invalidate();
+    this.logger.log(`Created ${type} credential ${credential.id} for ${credential.hostPattern}`);
+    return credential;
+  }
+
+  async getCredentials(): Promise<Credential[]> {
+    this.logger.log('Retrieving all credentials');
+    return this.postgresService.getCredentials();
+  }
+
+  async getCredentialById(id: number): Promise<Credential | null> {
+    this.logger.log(`Retrieving credential with id: ${id}`);
+    return this.postgresService.getCredentialById(id);
+  }
+
+  async updateCredential(id: number, updateCredentialDto: UpdateCredentialDto): Promise<Credential> {
+    const existing = await this.postgresService.getCredentialById(id);
+    if (!existing) {
+      throw new NotFoundException(`Credential ${id} not found`);
+    }
+
+    const { name, hostPattern, type, username, headerName, secret, enabled } = updateCredentialDto;
+    const nextType = type ?? existing.type;
+    const nextUsername = username ?? existing.username;
+    const nextHeaderName = headerName ?? existing.headerName;
+    this.validateShape(nextType, nextUsername, nextHeaderName);
+
+    const changes: Partial<Credential> = {
+      name,
+      hostPattern: hostPattern?.toLowerCase(),
+      type,
+      enabled,
+    };
+    if (type || username !== undefined || headerName !== undefined) {
+      changes.username = nextType === 'basic' ? nextUsername : null;
+      changes.headerName = nextType === 'header' ? nextHeaderName : null;
+    }
+    if (secret !== undefined) {
+      changes.encryptedSecret = this.requireCipher().encrypt(secret);
+    }
+
+    await this.postgresService.updateCredential(id, changes);
+    this.invalidate();
+    this.logger.log(`Updated credential ${id}`);
+
+    return this.postgresService.getCredentialById(id);
+  }
+
+  async deleteCredential(id: number): Promise<void> {
+    const existing = await this.postgresService.getCredentialById(id);
+    if (!existing) {
+      throw new NotFoundException(`Credential ${id} not found`);
+    }
+
+    await this.postgresService.deleteCredential(id);
+    this.invalidate();
+    this.logger.log(`Deleted credential ${id}`);
+  }
+
+  /**
+   * Finds the enabled credential whose host pattern matches the URL's host.
+   * When several match, the longest pattern wins, and among equally long
+   * ones the oldest credential. Secrets are only sent over https, so plain
+   * http URLs never get a credential.
+   */
+  async resolve(url: string): Promise<ResolvedCredential | null> {
+    const { protocol, hostname: host } = new URL(url);
+    if (protocol !== 'https:') {
+      return null;
+    }
+
+    const hostname = host.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+    const credentials = await this.getCompiledCredentials();
+
+    return credentials.find(credential => credential.hostPattern.test(hostname))?.resolved ?? null;
+  }
+
+  private getCompiledCredentials(): Promise<CompiledCredential[]> {
+    if (!this.compiled || Date.now() - this.compiledAt > CREDENTIALS_CACHE_TTL_MS) {
+      this.compiledAt = Date.now();
+      this.compiled = this.compileCredentials().catch(error => {
+        this.compiled = null;
+        throw error;
+      });
+    }
+
+    return this.compiled;
+  }
+
+  private async compileCredentials(): Promise<CompiledCredential[]> {
+    const credentials = await this.postgresService.getCredentials(true);
+    if (credentials.length > 0 && !this.cipher) {
+      this.logger.warn('CREDENTIALS_ENCRYPTION_KEY is not set, stored credentials are not sent');
+      return [];
+    }
+
+    const compiled: CompiledCredential[] = [];
+    for (const credential of credentials) {
+      let secret: string;
+      try {
+        secret = this.cipher.decrypt(credential.encryptedSecret);
+      } catch (error) {
+        // A key rotated without re-entering the secrets, or a tampered row
+        this.logger.error(`Failed to decrypt credential ${credential.id}, skipping it: ${error.message}`);
+        continue;
+      }
+
+      const headers = this.buildHeaders(credential, secret);
+      compiled.push({
+        hostPattern: compileHostPattern(credential.hostPattern),
+        specificity: credential.hostPattern.replace(/\*/g, '').length,
+        resolved: {
+          id: credential.id,
+          headers,
+          // Only the header values that are sent. Credentials stored before the minimum length was
+          // enforced can have values short enough to occur in unrelated text, and those are left alone.
+          secrets: Object.values(headers).filter(value => value.length >= MIN_SECRET_LENGTH),
+        },
+      });
+    }
+
+    // getCredentials returns them by id, and the sort is stable
+    return compiled.sort((a, b) => b.specificity - a.specificity);
+  }
+
+  private buildHeaders(credential: Credential, secret: string): Record<string, string> {
+    switch (credential.type) {
+      case 'basic':
+        return { Authorization: `Basic ${Buffer.from(`${credential.username}:${secret}`).toString('base64')}` };
+      case 'bearer':
+        return { Authorization: `Bearer ${secret}` };
+      case 'header':
+        return { [credential.headerName]: secret };
+    }
+  }
+
+  private validateShape(type: CredentialType, username: string | null | undefined, headerName: string | null | undefined): void {
+    if (type === 'basic' && !username) {
+      throw new BadRequestException('username is required for basic credentials');
+    }
+    if (type === 'basic' && username.includes(':')) {
+      throw new BadRequestException('username must not contain a colon');
+    }
+    if (type === 'header' && !headerName) {
+      throw new BadRequestException('headerName is required for header credentials');
+    }
+  }
+
+  private requireCipher(): CredentialCipher {
+    if (!this.cipher) {
+      throw new ServiceUnavailableException('The credentials vault is disabled: CREDENTIALS_ENCRYPTION_KEY is not set');
+    }
+
+    return this.cipher;
+  }
+
+  private invalidate(): void {
+    this.compiled = null;
+  }
+}
@@ -0,0 +1,40 @@
+import { IsString, IsIn, IsOptional, IsBoolean, MinLength, MaxLength, Matches } from 'class-validator';
+import { CREDENTIAL_TYPES, CredentialType } from '../entities/credential.entity';
+
+// Hostnames with optional `*` wildcards, as in the security policy
+export const HOST_PATTERN = /^[a-z0-9*]([a-z0-9*.-]*[a-z0-9*])?$/i;
+// An RFC 9110 token, the characters a header name may contain
+export const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9a-z-]+$/i;
+// Shorter secrets are too easy to guess, and too likely to occur in responses by chance
+export const MIN_SECRET_LENGTH = 8;
+
+export class CreateCredentialDto {
+  @IsString({ message: 'name must be a string' })
+  @MinLength(1, { message: 'name must not be empty' })
+  @MaxLength(200)
+  name: string;
+
+  @IsString({ message: 'hostPattern must be a string' })
+  @Matches(HOST_PATTERN, { message: 'hostPattern must be a hostname, optionally with * wildcards' })
+  hostPattern: string;
+
+  @IsIn(CREDENTIAL_TYPES, { message: `type must be one of: ${CREDENTIAL_TYPES.join(', ')}` })
+  type: CredentialType;
+
+  @IsOptional()
+  @IsString({ message: 'username must be a string' })
+  username?: string;
+
+  @IsOptional()
+  @IsString({ message: 'headerName must be a string' })
+  @Matches(HEADER_NAME, { message: 'headerName must be a valid HTTP header name' })
+  headerName?: string;
+
+  @IsString({ message: 'secret must be a string' })
+  @MinLength(MIN_SECRET_LENGTH, { message: `secret must be at least ${MIN_SECRET_LENGTH} characters long` })
+  secret: string;
+
+  @IsOptional()
+  @IsBoolean({ message: 'enabled must be a boolean' })
+  enabled?: boolean;
+}
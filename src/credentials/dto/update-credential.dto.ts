@@ -0,0 +1,38 @@
+import { IsString, IsIn, IsOptional, IsBoolean, MinLength, MaxLength, Matches } from 'class-validator';
+import { CREDENTIAL_TYPES, CredentialType } from '../entities/credential.entity';
+import { HEADER_NAME, HOST_PATTERN, MIN_SECRET_LENGTH } from './create-credential.dto';
+
+export class UpdateCredentialDto {
+  @IsOptional()
+  @IsString({ message: 'name must be a string' })
+  @MinLength(1, { message: 'name must not be empty' })
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @IsString({ message: 'hostPattern must be a string' })
+  @Matches(HOST_PATTERN, { message: 'hostPattern must be a hostname, optionally with * wildcards' })
+  hostPattern?: string;
+
+  @IsOptional()
+  @IsIn(CREDENTIAL_TYPES, { message: `type must be one of: ${CREDENTIAL_TYPES.join(', ')}` })
+  type?: CredentialType;
+
+  @IsOptional()
+  @IsString({ message: 'username must be a string' })
+  username?: string;
+
+  @IsOptional()
+  @IsString({ message: 'headerName must be a string' })
+  @Matches(HEADER_NAME, { message: 'headerName must be a valid HTTP header name' })
+  headerName?: string;
+
+  @IsOptional()
+  @IsString({ message: 'secret must be a string' })
+  @MinLength(MIN_SECRET_LENGTH, { message: `secret must be at least ${MIN_SECRET_LENGTH} characters long` })
+  secret?: string;
+
+  @IsOptional()
+  @IsBoolean({ message: 'enabled must be a boolean' })
+  enabled?: boolean;
+}
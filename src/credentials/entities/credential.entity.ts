@@ -0,0 +1,58 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+export const CREDENTIAL_TYPES = ['basic', 'bearer', 'header'] as const;
+
+export type CredentialType = (typeof CREDENTIAL_TYPES)[number];
+
+@Entity('credentials')
+export class Credential {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ type: 'text' })
+  name: string;
+
+  @Column({ name: 'host_pattern', type: 'text' })
+  hostPattern: string;
+
+  @Column({ type: 'text' })
+  type: CredentialType;
+
+  // The user name of `basic` credentials
+  @Column({ type: 'text', nullable: true })
+  username: string | null;
+
+  // The header `header` credentials are sent in, such as X-API-Key
+  @Column({ name: 'header_name', type: 'text', nullable: true })
+  headerName: string | null;
+
+  // The password, token or header value, encrypted with CREDENTIALS_ENCRYPTION_KEY
+  @Column({ name: 'encrypted_secret', type: 'text' })
+  encryptedSecret: string;
+
+  @Column({ type: 'boolean', default: true })
+  enabled: boolean;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+
+  /**
+   * The secret is write-only and never serialized, not even encrypted.
+   */
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      host_pattern: this.hostPattern,
+      type: this.type,
+      username: this.username,
+      header_name: this.headerName,
+      enabled: this.enabled,
+      created_at: this.createdAt,
+      updated_at: this.updatedAt,
+    };
+  }
+}
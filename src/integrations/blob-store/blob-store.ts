@@ -0,0 +1,32 @@
+import { DataSource } from 'typeorm';
+import { FilesystemBlobStore } from './filesystem-blob-store';
+import { PostgresBlobStore } from './postgres-blob-store';
+
+export const BLOB_STORE = 'BLOB_STORE';
+
+/**
+ * Byte-for-byte storage for response bodies that cannot be kept as text.
+ * Blobs are content-addressed: the key is the SHA-256 hex digest of the bytes,
+ * which is also the `content_hash` of the fetch, so identical bodies are
+ * stored once.
+ */
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+}
+
+/**
+ * Picks the implementation named by BLOB_STORE (`postgres` or `filesystem`).
+ */
+export function createBlobStore(dataSource: DataSource, env: NodeJS.ProcessEnv = process.env): BlobStore {
+  const type = env.BLOB_STORE || 'postgres';
+
+  switch (type) {
+    case 'postgres':
+      return new PostgresBlobStore(dataSource);
+    case 'filesystem':
+      return new FilesystemBlobStore(env.BLOB_STORE_DIR || './data/blobs');
+    default:
+      throw new Error(`Unknown blob store '${type}'. Use 'postgres' or 'filesystem'.`);
+  }
+}
@@ -0,0 +1,70 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { BlobStore } from './blob-store';
+
+const BLOB_KEY_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Keeps each blob in its own file, sharded by the first two characters of the
+ * key so no single directory grows too large.
+ */
+export class FilesystemBlobStore implements BlobStore {
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Keys are content hashes, so a blob that already exists holds the same
+   * bytes and is left alone. Concurrent puts of one blob each write their own
+   * temporary file.
+   */
+  async put(key: string, data: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    if (await this.exists(path)) {
+      return;
+    }
+
+    await fs.mkdir(dirname(path), { recursive: true });
+
+    // Written under a temporary name first, so a crash never leaves a partial blob behind
+    const temporaryPath = `${path}.${randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(temporaryPath, data);
+      await fs.rename(temporaryPath, path);
+    } catch (error) {
+      await fs.rm(temporaryPath, { force: true });
+      // Another put of the same blob finished first
+      if (!(await this.exists(path))) {
+        throw error;
+      }
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    try {
+      await fs.access(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private pathFor(key: string): string {
+    // Keys end up in file paths, so anything but a hex digest is refused
+    if (!BLOB_KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid blob key '${key}'`);
+    }
+
+    return join(this.directory, key.slice(0, 2), key);
+  }
+}
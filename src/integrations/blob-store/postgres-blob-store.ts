@@ -0,0 +1,26 @@
+import { DataSource } from 'typeorm';
+import { BlobStore } from './blob-store';
+
+/**
+ * Keeps blobs in the `fetch_blobs` table as `bytea`. The table is created by
+ * PostgresService together with the rest of the schema.
+ */
+export class PostgresBlobStore implements BlobStore {
+  constructor(private readonly dataSource: DataSource) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await this.dataSource.query(
+      `
+      INSERT INTO fetch_blobs (key, data, size_bytes)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (key) DO NOTHING
+      `,
+      [key, data, data.length],
+    );
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const rows = await this.dataSource.query('SELECT data FROM fetch_blobs WHERE key = $1', [key]);
+    return rows[0]?.data ?? null;
+  }
+}
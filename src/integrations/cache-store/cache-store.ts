@@ -0,0 +1,28 @@
+import { MemoryCacheStore } from './memory-cache-store';
+
+export const CACHE_STORE = 'CACHE_STORE';
+
+/**
+ * String key/value storage with per-key expiry. The interface follows Redis
+ * `GET`, `SET key value PX ttl` and `DEL`, so a Redis-compatible client can
+ * implement it directly.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Picks the implementation named by FETCH_CACHE_STORE. Only `memory` ships with the service.
+ */
+export function createCacheStore(env: NodeJS.ProcessEnv = process.env): CacheStore {
+  const type = env.FETCH_CACHE_STORE || 'memory';
+
+  switch (type) {
+    case 'memory':
+      return new MemoryCacheStore(parseInt(env.FETCH_CACHE_MAX_ENTRIES) || 1000);
+    default:
+      throw new Error(`Unknown cache store '${type}'. Use 'memory'.`);
+  }
+}
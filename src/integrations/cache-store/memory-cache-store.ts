@@ -0,0 +1,48 @@
+import { CacheStore } from './cache-store';
+
+interface MemoryCacheEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * Keeps entries in process memory. Past `maxEntries`, the least recently
+ * written entry is evicted first. The cache is per process and starts empty
+ * on every restart.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, MemoryCacheEntry>();
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    // Deleting first moves the key to the end of the insertion order
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
@@ -0,0 +1,60 @@
+const TEXT_CONTENT_TYPES = [
+  /^text\//,
+  /^application\/(json|xml|javascript|ecmascript|x-www-form-urlencoded|x-ndjson|graphql)$/,
+  /^application\/[\w.-]+\+(json|xml)$/,
+  /^image\/svg\+xml$/,
+];
+
+const BINARY_CONTENT_TYPES = [
+  /^(image|audio|video|font)\//,
+  /^application\/(octet-stream|pdf|zip|gzip|x-gzip|x-tar|x-7z-compressed|x-bzip2|wasm|vnd\.)/,
+];
+
+// File signatures of common binary formats
+const MAGIC_NUMBERS: number[][] = [
+  [0x89, 0x50, 0x4e, 0x47], // PNG
+  [0xff, 0xd8, 0xff], // JPEG
+  [0x47, 0x49, 0x46, 0x38], // GIF
+  [0x25, 0x50, 0x44, 0x46], // PDF
+  [0x1f, 0x8b], // gzip
+  [0x50, 0x4b, 0x03, 0x04], // zip
+  [0x42, 0x5a, 0x68], // bzip2
+  [0x00, 0x61, 0x73, 0x6d], // WebAssembly
+];
+
+// How much of the body is inspected when sniffing
+const SNIFF_BYTES = 1024;
+
+/**
+ * Decides whether a response body has to be stored byte-for-byte. A declared
+ * binary content type or a known file signature is enough. Without a content
+ * type, a body that contains NUL bytes or is not valid UTF-8 is treated as
+ * binary as well.
+ */
+export function isBinaryContent(contentType: string | undefined, body: Buffer): boolean {
+  const mimeType = (contentType || '').split(';')[0].trim().toLowerCase();
+
+  if (BINARY_CONTENT_TYPES.some(pattern => pattern.test(mimeType))) {
+    return true;
+  }
+
+  if (MAGIC_NUMBERS.some(signature => signature.every((byte, index) => body[index] === byte))) {
+    return true;
+  }
+
+  if (TEXT_CONTENT_TYPES.some(pattern => pattern.test(mimeType))) {
+    return false;
+  }
+
+  const sample = body.subarray(0, SNIFF_BYTES);
+  return sample.includes(0) || !isValidUtf8(sample);
+}
+
+function isValidUtf8(sample: Buffer): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Directives of a Cache-Control header, keyed by lowercase name. Directives
+ * without a value map to `true`.
+ */
+export function parseCacheControl(header: unknown): Record<string, string | true> {
+  const directives: Record<string, string | true> = {};
+  if (typeof header !== 'string') {
+    return directives;
+  }
+
+  for (const part of header.split(',')) {
+    const [name, ...value] = part.split('=');
+    if (name.trim()) {
+      directives[name.trim().toLowerCase()] = value.length > 0 ? value.join('=').trim().replace(/^"(.*)"$/, '$1') : true;
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Whether a response may be kept by a shared cache at all. `no-store` and
+ * `private` responses may not.
+ */
+export function isStorable(headers: Record<string, unknown> | undefined): boolean {
+  const directives = parseCacheControl(headers?.['cache-control']);
+  return !directives['no-store'] && !directives['private'];
+}
+
+/**
+ * How long a response stays fresh after it was received, following RFC 9111:
+ * `s-maxage`, then `max-age`, then `Expires` minus `Date`, less any `Age`.
+ * `no-cache` makes it stale at once. Returns undefined when the headers give
+ * no lifetime.
+ */
+export function getFreshnessLifetimeMs(headers: Record<string, unknown> | undefined): number | undefined {
+  const directives = parseCacheControl(headers?.['cache-control']);
+  if (directives['no-cache']) {
+    return 0;
+  }
+
+  let lifetimeMs: number | undefined;
+  const maxAge = directives['s-maxage'] ?? directives['max-age'];
+  if (typeof maxAge === 'string' && /^\d+$/.test(maxAge)) {
+    lifetimeMs = parseInt(maxAge) * 1000;
+  } else if (typeof headers?.['expires'] === 'string') {
+    const expires = Date.parse(headers['expires']);
+    const date = typeof headers['date'] === 'string' ? Date.parse(headers['date']) : NaN;
+    // An invalid Expires, such as "0", means already expired
+    lifetimeMs = isNaN(expires) ? 0 : Math.max(0, expires - (isNaN(date) ? Date.now() : date));
+  }
+
+  if (lifetimeMs === undefined) {
+    return undefined;
+  }
+
+  const age = typeof headers?.['age'] === 'string' ? parseInt(headers['age']) : NaN;
+  return Math.max(0, lifetimeMs - (isNaN(age) ? 0 : age * 1000));
+}
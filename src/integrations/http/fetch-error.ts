@@ -0,0 +1,71 @@
+import { getTlsError } from './tls-certificate';
+
+export const FETCH_ERROR_CODES = [
+  'dns_failure',
+  'timeout',
+  'connection_refused',
+  'connection_reset',
+  'host_unreachable',
+  'tls_error',
+  'proxy_error',
+  'too_many_redirects',
+  'body_too_large',
+  'blocked_by_policy',
+  'blocked_by_robots',
+  'credentials_unavailable',
+  'network_error',
+  'internal_error',
+] as const;
+
+/**
+ * Why a fetch failed, stored as `error_code` and used as the label of the
+ * fetch error counter.
+ */
+export type FetchErrorCode = (typeof FETCH_ERROR_CODES)[number];
+
+/**
+ * A failure raised by the fetch pipeline itself rather than by the network,
+ * such as a redirect limit or a URL the security policy refused.
+ * `systemCode` keeps the Node.js error code behind it, such as EAI_AGAIN,
+ * which retry policies are written against.
+ */
+export class FetchError extends Error {
+  constructor(readonly code: FetchErrorCode, message: string, readonly systemCode?: string) {
+    super(message);
+    this.name = 'FetchError';
+  }
+}
+
+// Node.js system error codes, as axios passes them through
+const SYSTEM_ERROR_CODES: Record<string, FetchErrorCode> = {
+  ENOTFOUND: 'dns_failure',
+  EAI_AGAIN: 'dns_failure',
+  ECONNABORTED: 'timeout',
+  ETIMEDOUT: 'timeout',
+  ESOCKETTIMEDOUT: 'timeout',
+  ECONNREFUSED: 'connection_refused',
+  ECONNRESET: 'connection_reset',
+  EPIPE: 'connection_reset',
+  ENETUNREACH: 'host_unreachable',
+  EHOSTUNREACH: 'host_unreachable',
+};
+
+const FETCH_ERROR_CODE_SET = new Set<string>(FETCH_ERROR_CODES);
+
+/**
+ * Groups an error thrown while fetching into a FetchErrorCode. Axios copies
+ * the code of the error it wraps, so a FetchError raised inside a request,
+ * such as by a proxy agent, keeps its code.
+ */
+export function classifyFetchError(error: { code?: string; message?: string }): FetchErrorCode {
+  const code = error?.code;
+  if (code && FETCH_ERROR_CODE_SET.has(code)) {
+    return code as FetchErrorCode;
+  }
+
+  if (getTlsError(error)) {
+    return 'tls_error';
+  }
+
+  return SYSTEM_ERROR_CODES[code] ?? 'network_error';
+}
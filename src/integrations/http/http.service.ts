@@ -1,64 +1,735 @@
-import { Injectable, Logger } from '@nestjs/common';
-import axios, { AxiosResponse, AxiosError } from 'axios';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import axios, { AxiosResponse, AxiosError, AxiosRequestConfig } from 'axios';
+import * as http from 'http';
+import * as https from 'https';
+import { LookupFunction } from 'net';
+import { Readable } from 'stream';
 import { MetricsService } from '../../metrics/metrics.service';
+import { SecurityService } from '../security/security.service';
+import { isBinaryContent } from './binary-content';
+import { FetchError, FetchErrorCode, classifyFetchError } from './fetch-error';
+import { FetchTimings, RequestTimer } from './request-timings';
+import { TlsCertificateInfo, TlsError, getCertificateInfo, getTlsError } from './tls-certificate';
+import { ProxyRouter, loadProxyRouter } from './proxy-router';
+import { createProxyAgent } from './proxy-agent';
+import { RetryOptions, RetryPolicy, computeRetryDelay, parseRetryAfter, resolveRetryPolicy } from './retry-policy';
+import { BlockedByRobotsError, RobotsService, RobotsTxtResponse } from './robots.service';
+
+export const PROXY_ROUTER = 'PROXY_ROUTER';
+export const CREDENTIAL_RESOLVER = 'CREDENTIAL_RESOLVER';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_MAX_REDIRECTS = 3;
+const DEFAULT_USER_AGENT = 'URL-Fetcher-Service/1.0';
+// RFC 9309 asks crawlers to follow at least five redirects for robots.txt
+const ROBOTS_MAX_REDIRECTS = 5;
+// A limit below 1 would make every body too large. NaN fails the comparison.
+const configuredMaxBodyBytes = parseInt(process.env.FETCH_MAX_BODY_BYTES);
+const MAX_BODY_BYTES = configuredMaxBodyBytes > 0 ? configuredMaxBodyBytes : 10 * 1024 * 1024;
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// A request setting one of these makes its 304s answer its own validators
+const CONDITIONAL_HEADERS = ['if-none-match', 'if-modified-since'];
+
+// Dropped when a redirect leaves the original host or downgrades to http
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+/**
+ * Headers that authenticate requests to a target host, and the stored
+ * credential they were built from.
+ */
+export interface ResolvedCredential {
+  id: number;
+  headers: Record<string, string>;
+  // Injected header values, redacted wherever a response echoes them back
+  secrets: string[];
+}
+
+/**
+ * Looks up the credential for a URL. Resolved once per hop, so a redirect to
+ * another host gets that host's credential or none.
+ */
+export interface CredentialResolver {
+  resolve(url: string): Promise<ResolvedCredential | null>;
+}
+
+/**
+ * Validators of a previously stored response, sent as If-None-Match and
+ * If-Modified-Since so an unchanged resource is answered with 304.
+ */
+export interface ConditionalValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Per-request overrides. Anything left out falls back to the service defaults.
+ */
+export interface FetchOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number;
+  maxRedirects?: number;
+  userAgent?: string;
+  retry?: RetryOptions;
+  respectRobots?: boolean;
+  conditional?: ConditionalValidators;
+  // Read by the fetch cache in front of fetchUrl, not by the fetch itself
+  maxAgeSeconds?: number;
+}
+
+/**
+ * The request parameters as they were actually applied, with defaults filled in.
+ */
+export interface FetchRequestOptions {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  timeoutMs: number;
+  maxRedirects: number;
+  userAgent: string;
+  retry: RetryPolicy;
+  respectRobots: boolean;
+}
+
+/**
+ * A redirect that was followed: the URL that answered, its status and the
+ * `Location` header it sent.
+ */
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location: string;
+}
+
+/**
+ * One try at fetching a URL. `retryDelayMs` is set when another attempt followed.
+ */
+export interface FetchAttemptResult {
+  attempt: number;
+  responseStatus?: number;
+  error?: string;
+  errorCode?: string;
+  durationMs: number;
+  retryDelayMs?: number;
+  startedAt: Date;
+}
 
 export interface FetchResult {
   url: string;
   responseStatus?: number;
   responseHeaders?: Record<string, unknown>;
   responseBody?: string;
+  // Set instead of responseBody when the body is binary
+  responseBytes?: Buffer;
+  isBinary?: boolean;
   contentType?: string;
+  requestOptions?: FetchRequestOptions;
+  bodyTruncated?: boolean;
+  bodySizeBytes?: number;
+  downloadDurationMs?: number;
+  // The server answered 304 to a conditional request, so the stored body is still current
+  notModified?: boolean;
+  // Redirects followed on the way, and the URL that finally answered
+  redirectChain?: RedirectHop[];
+  finalUrl?: string;
+  timings?: FetchTimings;
+  // The certificate of the last HTTPS hop, or null over plain HTTP
+  tlsCertificate?: TlsCertificateInfo | null;
+  tlsError?: TlsError;
+  // The proxy the last hop went through, without credentials, or null for a direct connection
+  proxy?: string | null;
+  // The vault credential sent with the last hop, if any
+  credentialId?: number | null;
+  attempts?: FetchAttemptResult[];
   error?: string;
+  // What kind of failure `error` is, such as `timeout` or `blocked_by_robots`
+  errorCode?: FetchErrorCode;
+}
+
+interface ResponseBody {
+  body: Buffer;
+  sizeBytes: number;
+  truncated: boolean;
+}
+
+interface AttemptOutcome {
+  result: FetchResult;
+  errorCode?: string;
 }
 
 @Injectable()
 export class HttpService {
   private readonly logger = new Logger(HttpService.name);
+  private readonly proxyRouter: ProxyRouter;
+
+  constructor(
+    private readonly metricsService: MetricsService,
+    private readonly securityService: SecurityService,
+    private readonly robotsService: RobotsService,
+    @Optional() @Inject(PROXY_ROUTER) proxyRouter?: ProxyRouter,
+    @Optional() @Inject(CREDENTIAL_RESOLVER) private readonly credentialResolver?: CredentialResolver,
+  ) {
+    this.proxyRouter = proxyRouter ?? loadProxyRouter();
+  }
+
+  /**
+   * Fetches a URL, retrying transient failures according to the retry policy.
+   * Every attempt is returned in `attempts`; the result is the last attempt's.
+   */
+  async fetchUrl(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+    const requestOptions = this.resolveFetchOptions(options);
+    const attempts: FetchAttemptResult[] = [];
 
-  constructor(private readonly metricsService: MetricsService) {}
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = new Date();
+      const { result, errorCode } = await this.fetchAttempt(url, requestOptions, attempt > 1);
+      const record: FetchAttemptResult = {
+        attempt,
+        responseStatus: result.responseStatus,
+        error: result.error,
+        errorCode,
+        durationMs: Date.now() - startedAt.getTime(),
+        startedAt,
+      };
+      attempts.push(record);
 
-  async fetchUrl(url: string): Promise<FetchResult> {
+      const retryDelayMs = attempt < requestOptions.retry.maxAttempts
+        ? this.getRetryDelay(requestOptions.retry, attempt, result, errorCode)
+        : undefined;
+      if (retryDelayMs === undefined) {
+        if (result.notModified && !this.sentStoredValidators(options)) {
+          // The stored body need not match validators the caller sent, so the 304 is stored as it is
+          result.notModified = false;
+        }
+        return { ...result, attempts };
+      }
+
+      record.retryDelayMs = retryDelayMs;
+      this.logger.warn(
+        `Attempt ${attempt} of ${url} failed with ${errorCode || `HTTP ${result.responseStatus}`}, retrying in ${retryDelayMs}ms`,
+      );
+      await new Promise(resolve => setTimeout(resolve, retryDelayMs));
+    }
+  }
+
+  /**
+   * Redirects are followed here rather than by axios, so every hop is resolved,
+   * validated and pinned before anything is sent to it. The body is streamed
+   * and cut off at FETCH_MAX_BODY_BYTES instead of being buffered whole.
+   */
+  private async fetchAttempt(url: string, requestOptions: FetchRequestOptions, retry: boolean): Promise<AttemptOutcome> {
     const startTime = Date.now();
-    
+    // Kept outside the try block, so a failed fetch still shows how far it got
+    const redirectChain: RedirectHop[] = [];
+    let timer: RequestTimer | undefined;
+    let tlsCertificate: TlsCertificateInfo | null = null;
+    let proxy: string | null = null;
+    let credential: ResolvedCredential | null = null;
+    // Redirects can change the method, so metrics report the one last sent
+    let method = requestOptions.method;
+
     try {
-      const response: AxiosResponse = await axios.get(url, {
-        timeout: 5000,
-        maxRedirects: 3,
-        headers: {
-          'User-Agent': 'URL-Fetcher-Service/1.0',
-        },
-        validateStatus: () => true,
-      });
+      let currentUrl = url;
+      let body = requestOptions.body;
+      let headers = requestOptions.headers;
+      let response: AxiosResponse;
+
+      for (let redirectCount = 0; ; redirectCount++) {
+        // Every hop is checked, since a redirect can lead to a host with different rules
+        if (requestOptions.respectRobots) {
+          await this.checkRobots(currentUrl, requestOptions.userAgent);
+        }
+
+        credential = await this.resolveCredential(currentUrl);
+
+        timer = new RequestTimer();
+        proxy = this.proxyRouter.select(currentUrl)?.label ?? null;
+        response = await this.requestPinned(currentUrl, {
+          method,
+          data: body,
+          responseType: 'stream',
+          timeout: requestOptions.timeoutMs,
+          headers: {
+            ...this.withCredentialHeaders(headers, credential),
+            'User-Agent': requestOptions.userAgent,
+          },
+        }, timer);
+        tlsCertificate = getCertificateInfo(response.request?.socket);
+
+        const location = response.headers?.location;
+        if (!REDIRECT_STATUSES.includes(response.status) || !location || requestOptions.maxRedirects === 0) {
+          break;
+        }
+
+        this.discardBody(response);
+        redirectChain.push({ url: currentUrl, status: response.status, location });
+
+        if (redirectCount >= requestOptions.maxRedirects) {
+          throw new FetchError('too_many_redirects', 'Maximum number of redirects exceeded');
+        }
+
+        // Credentials neither follow the request to another host nor go out in cleartext
+        const previousUrl = new URL(currentUrl);
+        const nextUrl = new URL(location, currentUrl);
+        if (nextUrl.host !== previousUrl.host || (previousUrl.protocol === 'https:' && nextUrl.protocol === 'http:')) {
+          headers = this.withoutCredentialHeaders(headers);
+        }
+
+        // Same method rewriting as browsers and follow-redirects
+        if (response.status === 303 || ([301, 302].includes(response.status) && method === 'POST')) {
+          method = method === 'HEAD' ? 'HEAD' : 'GET';
+          body = undefined;
+        }
+
+        this.logger.debug(`Following ${response.status} redirect from ${currentUrl} to ${nextUrl}`);
+        currentUrl = nextUrl.toString();
+      }
+
+      const contentLength = parseInt(response.headers['content-length']);
+      if (contentLength > MAX_BODY_BYTES) {
+        this.discardBody(response);
+        this.metricsService.recordHttpRequest(Date.now() - startTime, method, response.status, retry);
+        const timings = timer.getTimings(startTime);
+        this.metricsService.recordRequestTimings(timings);
+
+        const errorMessage = `Response body too large: content-length ${contentLength} exceeds the limit of ${MAX_BODY_BYTES} bytes`;
+        this.logger.warn(`Failed to fetch ${url}: ${errorMessage}`);
+        this.metricsService.recordFetchError('body_too_large');
+
+        return {
+          result: {
+            url,
+            responseStatus: response.status,
+            responseHeaders: this.redactSecrets(response.headers, credential),
+            contentType: response.headers['content-type'],
+            requestOptions,
+            bodyTruncated: true,
+            redirectChain,
+            finalUrl: currentUrl,
+            timings,
+            tlsCertificate,
+            proxy,
+            credentialId: credential?.id ?? null,
+            error: errorMessage,
+            errorCode: 'body_too_large',
+          },
+        };
+      }
+
+      const downloadStart = Date.now();
+      const responseBody = await this.readBody(response.data, MAX_BODY_BYTES, requestOptions.timeoutMs);
+      const downloadDurationMs = Date.now() - downloadStart;
+      timer.mark('downloadEnd');
+
+      if (responseBody.truncated) {
+        this.logger.warn(`Truncated the response body of ${url} at ${MAX_BODY_BYTES} bytes`);
+      }
 
       const responseTime = Date.now() - startTime;
-      this.metricsService.recordHttpRequest(responseTime, response.status);
+      this.metricsService.recordHttpRequest(responseTime, method, response.status, retry);
+      const timings = timer.getTimings(startTime);
+      this.metricsService.recordRequestTimings(timings);
+
+      const isBinary = isBinaryContent(response.headers['content-type'], responseBody.body);
 
       return {
-        url,
-        responseStatus: response.status,
-        responseHeaders: response.headers,
-        responseBody: response.data,
-        contentType: response.headers['content-type'],
+        result: {
+          url,
+          responseStatus: response.status,
+          responseHeaders: this.redactSecrets(response.headers, credential),
+          ...(isBinary
+            ? { responseBytes: responseBody.body }
+            : { responseBody: this.redactSecrets(responseBody.body.toString('utf8'), credential) }),
+          isBinary,
+          contentType: response.headers['content-type'],
+          requestOptions,
+          bodyTruncated: responseBody.truncated,
+          bodySizeBytes: responseBody.sizeBytes,
+          downloadDurationMs,
+          notModified: response.status === 304,
+          redirectChain,
+          finalUrl: currentUrl,
+          timings,
+          tlsCertificate,
+          proxy,
+          credentialId: credential?.id ?? null,
+        },
       };
     } catch (error) {
+      if (error instanceof BlockedByRobotsError) {
+        this.logger.warn(`Skipped ${url}: ${error.message}`);
+        this.metricsService.recordFetchError(error.code);
+
+        return {
+          result: { url, requestOptions, redirectChain, error: error.message, errorCode: error.code },
+          errorCode: error.code,
+        };
+      }
+
       const responseTime = Date.now() - startTime;
-      this.metricsService.recordHttpRequest(responseTime, error.response?.status || 0);
+      this.metricsService.recordHttpRequest(responseTime, method, error.response?.status || 0, retry);
+      // The phases that completed before the failure, such as a lookup before a connect timeout
+      const timings = timer?.getTimings(startTime);
+      if (timings) {
+        this.metricsService.recordRequestTimings(timings);
+      }
       
       const axiosError = error as AxiosError;
+      const tlsError = getTlsError(axiosError);
       const errorMessage = axiosError.response 
         ? `HTTP ${axiosError.response.status}: ${axiosError.message}`
-        : axiosError.message;
+        : tlsError
+          ? `TLS error (${tlsError.code}): ${tlsError.message}`
+          : axiosError.message;
 
+      const fetchErrorCode = classifyFetchError(error);
       this.logger.error(`Failed to fetch ${url}: ${errorMessage}`);
+      this.metricsService.recordFetchError(fetchErrorCode);
 
       return {
-        url,
-        responseStatus: axiosError.response?.status,
-        error: errorMessage,
+        result: {
+          url,
+          responseStatus: axiosError.response?.status,
+          requestOptions,
+          redirectChain,
+          timings,
+          // Kept when the failure came after the handshake, such as a body download timeout
+          tlsCertificate: tlsError ? null : tlsCertificate,
+          tlsError,
+          proxy,
+          credentialId: credential?.id ?? null,
+          error: errorMessage,
+          errorCode: fetchErrorCode,
+        },
+        // The raw code, which retry policies are written against
+        errorCode: (error as FetchError).systemCode ?? axiosError.code,
       };
     }
   }
 
+  /**
+   * Throws BlockedByRobotsError when robots.txt disallows `url` for the User-Agent.
+   * Otherwise waits out the host's Crawl-delay, if it has one.
+   */
+  private async checkRobots(url: string, userAgent: string): Promise<void> {
+    const { decision, entry } = await this.robotsService.check(
+      url,
+      userAgent,
+      robotsUrl => this.fetchRobotsTxt(robotsUrl, userAgent),
+    );
+    if (!decision.allowed) {
+      throw new BlockedByRobotsError(url, entry, decision);
+    }
+
+    const waitMs = this.robotsService.reserveCrawlDelay(entry, userAgent);
+    if (waitMs > 0) {
+      this.logger.debug(`Waiting ${waitMs}ms for the Crawl-delay of ${entry.origin}`);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  /**
+   * Fetches robots.txt through the same pinned, size-limited path as any other
+   * URL, with a single attempt and without checking robots.txt for itself.
+   */
+  private async fetchRobotsTxt(robotsUrl: string, userAgent: string): Promise<RobotsTxtResponse> {
+    const { result } = await this.fetchAttempt(robotsUrl, {
+      method: 'GET',
+      headers: {},
+      timeoutMs: DEFAULT_TIMEOUT_MS,
+      maxRedirects: ROBOTS_MAX_REDIRECTS,
+      userAgent,
+      retry: resolveRetryPolicy('GET', { maxAttempts: 1 }),
+      respectRobots: false,
+    }, false);
+
+    return {
+      responseStatus: result.responseStatus,
+      body: result.responseBody ?? result.responseBytes?.toString('utf8'),
+      error: result.error,
+    };
+  }
+
+  /**
+   * Delay before the next attempt, or undefined when the outcome is not worth
+   * retrying. A Retry-After header replaces the backoff; if it asks for more
+   * than `maxDelayMs`, the fetch gives up instead of waiting that long.
+   */
+  private getRetryDelay(policy: RetryPolicy, attempt: number, result: FetchResult, errorCode?: string): number | undefined {
+    if (errorCode) {
+      return policy.retryOnErrorCodes.includes(errorCode) ? computeRetryDelay(policy, attempt) : undefined;
+    }
+
+    if (result.error || !policy.retryOnStatus.includes(result.responseStatus)) {
+      return undefined;
+    }
+
+    const retryAfterMs = parseRetryAfter(result.responseHeaders?.['retry-after']);
+    if (retryAfterMs === undefined) {
+      return computeRetryDelay(policy, attempt);
+    }
+
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : undefined;
+  }
+
+  /**
+   * Posts a JSON body without following redirects. Used for outbound webhook
+   * deliveries, where a redirect could point the request at an internal host.
+   */
+  async postJson(
+    url: string,
+    body: string,
+    headers: Record<string, string>,
+    timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  ): Promise<{ status?: number; error?: string; durationMs: number }> {
+    const startTime = Date.now();
+
+    try {
+      const response = await this.requestPinned(url, {
+        method: 'POST',
+        data: body,
+        // The response body is never read, so it is not downloaded either
+        responseType: 'stream',
+        timeout: timeoutMs,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': DEFAULT_USER_AGENT,
+          ...headers,
+        },
+      });
+
+      this.discardBody(response);
+
+      return { status: response.status, durationMs: Date.now() - startTime };
+    } catch (error) {
+      const errorMessage = (error as AxiosError).message;
+      this.logger.error(`Failed to post to ${url}: ${errorMessage}`);
+
+      return { error: errorMessage, durationMs: Date.now() - startTime };
+    }
+  }
+
+  /**
+   * Sends a single request without following redirects. The hostname is
+   * resolved and checked first, and the connection is made to exactly that
+   * address, so a DNS answer that changes between the check and the request
+   * (DNS rebinding) cannot reach an internal host. Through a proxy, the tunnel
+   * leads to that address as well. `timer`, when given, records
+   * the lookup, connection and wait for the response headers.
+   */
+  private async requestPinned(url: string, config: AxiosRequestConfig, timer?: RequestTimer): Promise<AxiosResponse> {
+    timer?.mark('dnsStart');
+    const target = await this.securityService.resolveUrl(url);
+    timer?.mark('dnsEnd');
+    if (!target.isValid) {
+      throw new FetchError(
+        target.unresolved ? 'dns_failure' : 'blocked_by_policy',
+        `URL failed security validation: ${target.error}`,
+        target.dnsErrorCode,
+      );
+    }
+
+    const { address, family } = target;
+    const lookup = ((hostname, options, callback) => {
+      if (options?.all) {
+        callback(null, [{ address, family }]);
+      } else {
+        callback(null, address, family);
+      }
+    }) as LookupFunction;
+
+    const parsedUrl = new URL(url);
+    const isHttps = parsedUrl.protocol === 'https:';
+    const proxyRoute = this.proxyRouter.select(url);
+    const agent = proxyRoute
+      ? createProxyAgent(proxyRoute.url, {
+        address,
+        family,
+        port: parsedUrl.port ? parseInt(parsedUrl.port) : isHttps ? 443 : 80,
+      }, isHttps, config.timeout || DEFAULT_TIMEOUT_MS)
+      : isHttps ? new https.Agent({ lookup }) : new http.Agent({ lookup });
+    timer?.watchAgent(agent);
+
+    const response = await axios.request({
+      ...config,
+      url,
+      maxRedirects: 0,
+      // Proxies are handled by the agent, which tunnels to the checked address.
+      // Axios' own proxy support would let the proxy resolve the hostname and bypass the pinning.
+      proxy: false,
+      ...(isHttps ? { httpsAgent: agent } : { httpAgent: agent }),
+      validateStatus: () => true,
+    });
+    // With a streamed body, the response resolves as soon as the headers are in
+    timer?.mark('firstByte');
+
+    return response;
+  }
+
+  /**
+   * Reads a streamed body up to `maxBytes`. Past the limit the stream is
+   * destroyed, which aborts the download, and the body is kept up to the limit.
+   * `timeoutMs` bounds the download separately from the request timeout, which
+   * only covers the wait for the response headers.
+   */
+  private readBody(stream: Readable, maxBytes: number, timeoutMs: number): Promise<ResponseBody> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let sizeBytes = 0;
+
+      const timer = setTimeout(() => {
+        stream.destroy(new FetchError('timeout', `Body download exceeded the timeout of ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      const finish = (truncated: boolean) => {
+        clearTimeout(timer);
+        resolve({ body: Buffer.concat(chunks), sizeBytes, truncated });
+      };
+
+      stream.on('data', (chunk: Buffer | string) => {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        const remaining = maxBytes - sizeBytes;
+
+        if (buffer.length > remaining) {
+          chunks.push(buffer.subarray(0, remaining));
+          sizeBytes = maxBytes;
+          stream.destroy();
+          finish(true);
+          return;
+        }
+
+        chunks.push(buffer);
+        sizeBytes += buffer.length;
+      });
+      stream.on('end', () => finish(false));
+      stream.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+
+  private discardBody(response: AxiosResponse): void {
+    if (response.data instanceof Readable) {
+      response.data.destroy();
+    }
+  }
+
+  /**
+   * Asks the credentials vault for the credential of `url`. A vault that cannot
+   * be read fails the hop rather than sending it unauthenticated.
+   */
+  private async resolveCredential(url: string): Promise<ResolvedCredential | null> {
+    if (!this.credentialResolver) {
+      return null;
+    }
+
+    try {
+      return await this.credentialResolver.resolve(url);
+    } catch (error) {
+      throw new FetchError('credentials_unavailable', `Failed to resolve credentials for ${new URL(url).host}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Adds the headers of a vault credential. Headers the request sets itself
+   * take precedence.
+   */
+  private withCredentialHeaders(headers: Record<string, string>, credential: ResolvedCredential | null): Record<string, string> {
+    if (!credential) {
+      return headers;
+    }
+
+    const setHeaders = Object.keys(headers).map(name => name.toLowerCase());
+    const credentialHeaders = Object.entries(credential.headers).filter(([name]) => !setHeaders.includes(name.toLowerCase()));
+
+    return { ...headers, ...Object.fromEntries(credentialHeaders) };
+  }
+
+  /**
+   * Replaces the secrets of a vault credential wherever a response echoes them,
+   * such as a debugging endpoint that returns the request headers.
+   */
+  private redactSecrets<T>(value: T, credential: ResolvedCredential | null): T {
+    if (!credential || value === null || value === undefined) {
+      return value;
+    }
+
+    if (typeof value === 'string') {
+      return credential.secrets.reduce((text, secret) => text.split(secret).join('[REDACTED]'), value as string) as T;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactSecrets(item, credential)) as T;
+    }
+
+    if (typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([name, item]) => [name, this.redactSecrets(item, credential)]),
+      ) as T;
+    }
+
+    return value;
+  }
+
+  private withoutCredentialHeaders(headers: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).filter(([name]) => !CREDENTIAL_HEADERS.includes(name.toLowerCase())),
+    );
+  }
+
+  /**
+   * Whether the conditional headers sent were the stored validators alone, so
+   * a 304 vouches for the stored body.
+   */
+  private sentStoredValidators(options: FetchOptions): boolean {
+    const setHeaders = Object.keys(options.headers || {}).map(name => name.toLowerCase());
+    return Boolean(options.conditional?.etag || options.conditional?.lastModified) &&
+      !setHeaders.some(name => CONDITIONAL_HEADERS.includes(name));
+  }
+
+  /**
+   * Fills in defaults. A `userAgent` option wins over a User-Agent header, which
+   * wins over the service default. Conditional validators are added as headers
+   * unless the request sets those headers itself.
+   */
+  private resolveFetchOptions(options: FetchOptions): FetchRequestOptions {
+    const headers: Record<string, string> = {};
+    let userAgentHeader: string | undefined;
+
+    for (const [name, value] of Object.entries(options.headers || {})) {
+      if (name.toLowerCase() === 'user-agent') {
+        userAgentHeader = value;
+      } else {
+        headers[name] = value;
+      }
+    }
+
+    const setHeaders = Object.keys(headers).map(name => name.toLowerCase());
+    if (options.conditional?.etag && !setHeaders.includes('if-none-match')) {
+      headers['If-None-Match'] = options.conditional.etag;
+    }
+    if (options.conditional?.lastModified && !setHeaders.includes('if-modified-since')) {
+      headers['If-Modified-Since'] = options.conditional.lastModified;
+    }
+
+    const method = options.method || 'GET';
+
+    return {
+      method,
+      headers,
+      body: options.body,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      maxRedirects: options.maxRedirects ?? DEFAULT_MAX_REDIRECTS,
+      userAgent: options.userAgent || userAgentHeader || DEFAULT_USER_AGENT,
+      retry: resolveRetryPolicy(method, options.retry),
+      respectRobots: options.respectRobots ?? this.robotsService.isEnabledByDefault(),
+    };
+  }
+
   async fetchMultipleUrls(urls: string[]): Promise<FetchResult[]> {
     const promises = urls.map(url => this.fetchUrl(url));
     return Promise.all(promises);
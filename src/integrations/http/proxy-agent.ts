@@ -0,0 +1,260 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+import { Duplex } from 'stream';
+import { FetchError } from './fetch-error';
+
+/**
+ * Where a tunnel leads: the address the target hostname was resolved to and
+ * checked against the security policy, and the target port.
+ */
+export interface TunnelTarget {
+  address: string;
+  family: 4 | 6;
+  port: number;
+}
+
+const SOCKS_VERSION = 0x05;
+const SOCKS_NO_AUTH = 0x00;
+const SOCKS_USER_PASS_AUTH = 0x02;
+const SOCKS_CONNECT = 0x01;
+
+const SOCKS_REPLY_ERRORS: Record<number, string> = {
+  0x01: 'general failure',
+  0x02: 'connection not allowed by ruleset',
+  0x03: 'network unreachable',
+  0x04: 'host unreachable',
+  0x05: 'connection refused',
+  0x06: 'TTL expired',
+  0x07: 'command not supported',
+  0x08: 'address type not supported',
+};
+
+/**
+ * Creates an agent that reaches the target through `proxy`. HTTP and HTTPS
+ * proxies are asked for a CONNECT tunnel, SOCKS5 proxies for a CONNECT
+ * command. Either way the tunnel leads to the checked address rather than the
+ * hostname, so the proxy cannot resolve the name to somewhere else. For HTTPS
+ * targets, TLS is then negotiated through the tunnel with the original
+ * hostname, so the certificate is verified as on a direct connection.
+ */
+export function createProxyAgent(proxy: URL, target: TunnelTarget, secure: boolean, timeoutMs: number): http.Agent {
+  const openTunnel = () => proxy.protocol.startsWith('socks')
+    ? connectThroughSocksProxy(proxy, target, timeoutMs)
+    : connectThroughHttpProxy(proxy, target, timeoutMs);
+
+  // https.request refuses an agent whose protocol is not https:, so each target protocol gets its own agent class
+  const agent = secure ? new https.Agent() : new http.Agent();
+
+  agent.createConnection = ((options: tls.ConnectionOptions, callback: (error: Error | null, socket?: Duplex) => void) => {
+    openTunnel().then(
+      socket => callback(null, secure ? tls.connect({ ...options, socket }) : socket),
+      error => callback(error),
+    );
+    // The socket is handed over through the callback once the tunnel is up
+    return undefined;
+  }) as http.Agent['createConnection'];
+
+  return agent;
+}
+
+async function connectThroughHttpProxy(proxy: URL, target: TunnelTarget, timeoutMs: number): Promise<net.Socket> {
+  const socket = await connectToProxy(proxy, timeoutMs);
+  const authority = target.family === 6 ? `[${target.address}]:${target.port}` : `${target.address}:${target.port}`;
+  const headers = [`CONNECT ${authority} HTTP/1.1`, `Host: ${authority}`];
+  if (proxy.username) {
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    headers.push(`Proxy-Authorization: Basic ${Buffer.from(credentials).toString('base64')}`);
+  }
+
+  return runHandshake(socket, timeoutMs, async reader => {
+    socket.write(`${headers.join('\r\n')}\r\n\r\n`);
+
+    const response = await reader.readUntil('\r\n\r\n');
+    const statusLine = response.toString('latin1').split('\r\n')[0];
+    const status = parseInt(statusLine.split(' ')[1]);
+    if (!(status >= 200 && status < 300)) {
+      throw new FetchError('proxy_error', `Proxy ${proxy.host} refused the tunnel: ${statusLine}`);
+    }
+  });
+}
+
+async function connectThroughSocksProxy(proxy: URL, target: TunnelTarget, timeoutMs: number): Promise<net.Socket> {
+  const socket = await connectToProxy(proxy, timeoutMs);
+  const username = decodeURIComponent(proxy.username);
+  const password = decodeURIComponent(proxy.password);
+
+  return runHandshake(socket, timeoutMs, async reader => {
+    const methods = username ? [SOCKS_NO_AUTH, SOCKS_USER_PASS_AUTH] : [SOCKS_NO_AUTH];
+    socket.write(Buffer.from([SOCKS_VERSION, methods.length, ...methods]));
+
+    const [, method] = await reader.read(2);
+    if (method === SOCKS_USER_PASS_AUTH && username) {
+      const user = Buffer.from(username);
+      const pass = Buffer.from(password);
+      socket.write(Buffer.concat([Buffer.from([0x01, user.length]), user, Buffer.from([pass.length]), pass]));
+
+      const [, status] = await reader.read(2);
+      if (status !== 0x00) {
+        throw new FetchError('proxy_error', `SOCKS proxy ${proxy.host} rejected the credentials`);
+      }
+    } else if (method !== SOCKS_NO_AUTH) {
+      throw new FetchError('proxy_error', `SOCKS proxy ${proxy.host} offers no supported authentication method`);
+    }
+
+    const address = target.family === 6 ? ipv6ToBuffer(target.address) : Buffer.from(target.address.split('.').map(Number));
+    const port = Buffer.alloc(2);
+    port.writeUInt16BE(target.port);
+    socket.write(Buffer.concat([
+      Buffer.from([SOCKS_VERSION, SOCKS_CONNECT, 0x00, target.family === 6 ? 0x04 : 0x01]),
+      address,
+      port,
+    ]));
+
+    const [, reply, , addressType] = await reader.read(4);
+    if (reply !== 0x00) {
+      throw new FetchError('proxy_error', `SOCKS proxy ${proxy.host} could not connect: ${SOCKS_REPLY_ERRORS[reply] || `reply ${reply}`}`);
+    }
+
+    // The bound address and port that follow are not needed, but must be read off the stream
+    const addressLength = addressType === 0x04 ? 16 : addressType === 0x03 ? (await reader.read(1))[0] : 4;
+    await reader.read(addressLength + 2);
+  });
+}
+
+function connectToProxy(proxy: URL, timeoutMs: number): Promise<net.Socket> {
+  const host = proxy.hostname.replace(/^\[(.*)\]$/, '$1');
+  const defaultPort = proxy.protocol === 'https:' ? 443 : proxy.protocol === 'http:' ? 80 : 1080;
+  const port = proxy.port ? parseInt(proxy.port) : defaultPort;
+
+  return new Promise((resolve, reject) => {
+    const socket: net.Socket = proxy.protocol === 'https:'
+      ? tls.connect({ host, port, servername: isIPHost(host) ? undefined : host })
+      : net.connect({ host, port });
+
+    const timer = setTimeout(() => socket.destroy(new FetchError('timeout', `Connecting to proxy ${proxy.host} timed out after ${timeoutMs}ms`)), timeoutMs);
+    socket.once(proxy.protocol === 'https:' ? 'secureConnect' : 'connect', () => {
+      clearTimeout(timer);
+      socket.removeListener('error', onError);
+      resolve(socket);
+    });
+
+    const onError = (error: Error) => {
+      clearTimeout(timer);
+      reject(error);
+    };
+    socket.once('error', onError);
+  });
+}
+
+/**
+ * Runs a proxy handshake on `socket`, destroying it on failure or when the
+ * handshake takes longer than `timeoutMs`.
+ */
+async function runHandshake(
+  socket: net.Socket,
+  timeoutMs: number,
+  handshake: (reader: SocketReader) => Promise<void>,
+): Promise<net.Socket> {
+  const reader = new SocketReader(socket);
+  const timer = setTimeout(() => socket.destroy(new FetchError('timeout', `Proxy handshake timed out after ${timeoutMs}ms`)), timeoutMs);
+
+  try {
+    await handshake(reader);
+    reader.release();
+    return socket;
+  } catch (error) {
+    socket.destroy();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Reads exact amounts from a socket during a handshake. Anything received past
+ * the handshake is put back on the socket when the reader is released.
+ */
+class SocketReader {
+  private buffer = Buffer.alloc(0);
+  private waiting: (() => void) | null = null;
+  private failure: Error | null = null;
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    this.waiting?.();
+  };
+
+  private readonly onClose = (error?: Error) => {
+    // 'close' follows 'error', so the first reason is kept
+    this.failure ??= error instanceof Error ? error : new FetchError('proxy_error', 'Proxy closed the connection during the handshake');
+    this.waiting?.();
+  };
+
+  constructor(private readonly socket: net.Socket) {
+    socket.on('data', this.onData);
+    socket.once('error', this.onClose);
+    socket.once('close', this.onClose);
+  }
+
+  async read(length: number): Promise<Buffer> {
+    await this.waitFor(() => this.buffer.length >= length);
+    return this.take(length);
+  }
+
+  async readUntil(delimiter: string): Promise<Buffer> {
+    await this.waitFor(() => this.buffer.includes(delimiter));
+    return this.take(this.buffer.indexOf(delimiter) + delimiter.length);
+  }
+
+  release(): void {
+    this.socket.removeListener('data', this.onData);
+    this.socket.removeListener('error', this.onClose);
+    this.socket.removeListener('close', this.onClose);
+    if (this.buffer.length > 0) {
+      this.socket.unshift(this.buffer);
+    }
+  }
+
+  private take(length: number): Buffer {
+    const chunk = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return chunk;
+  }
+
+  private async waitFor(ready: () => boolean): Promise<void> {
+    while (!ready()) {
+      if (this.failure) {
+        throw this.failure;
+      }
+      await new Promise<void>(resolve => (this.waiting = resolve));
+      this.waiting = null;
+    }
+  }
+}
+
+function isIPHost(host: string): boolean {
+  return net.isIP(host) !== 0;
+}
+
+function ipv6ToBuffer(address: string): Buffer {
+  // An embedded IPv4 address, as in ::ffff:192.0.2.1, becomes the last two groups
+  const embedded = address.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (embedded) {
+    const [a, b, c, d] = embedded.slice(2).map(Number);
+    address = `${embedded[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  // Expand "::" into the missing zero groups, then write each group as two bytes
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail ? tail.split(':') : [];
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+
+  const buffer = Buffer.alloc(16);
+  groups.forEach((group, index) => buffer.writeUInt16BE(parseInt(group, 16), index * 2));
+  return buffer;
+}
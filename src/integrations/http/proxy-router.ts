@@ -0,0 +1,190 @@
+import { readFileSync } from 'fs';
+import { BlockList, isIP } from 'net';
+import { parse as parseYaml } from 'yaml';
+import { compileCidr, compileHostPattern } from '../security/host-matching';
+
+export const DIRECT = 'direct';
+
+const PROXY_PROTOCOLS = ['http:', 'https:', 'socks5:', 'socks5h:'];
+
+/**
+ * Sends requests to hosts matching `host` through `proxy`. `host` is an exact
+ * hostname or a wildcard pattern where `*` matches any characters, as in the
+ * security policy. `proxy` is a proxy URL or `direct`.
+ */
+export interface ProxyRule {
+  host: string;
+  proxy: string;
+}
+
+export interface ProxyConfig {
+  rules?: ProxyRule[];
+  // Used for targets no rule matches, by target protocol
+  httpProxy?: string;
+  httpsProxy?: string;
+  // NO_PROXY entries: hostnames, domain suffixes, IP addresses or CIDR ranges, optionally with a port
+  noProxy?: string[];
+}
+
+/**
+ * The proxy a request goes through. `label` is the proxy URL without
+ * credentials, which is what gets stored with a result.
+ */
+export interface ProxyRoute {
+  url: URL;
+  label: string;
+}
+
+interface CompiledProxyRule {
+  hostPattern: RegExp;
+  route: ProxyRoute | null;
+}
+
+interface NoProxyEntry {
+  host?: string;
+  addresses?: BlockList;
+  port?: number;
+}
+
+/**
+ * Picks the proxy for a target URL. NO_PROXY entries are checked first and
+ * mean a direct connection, then the rules in order, then the default proxy
+ * of the target's protocol.
+ */
+export class ProxyRouter {
+  private readonly rules: CompiledProxyRule[];
+  private readonly httpRoute: ProxyRoute | null;
+  private readonly httpsRoute: ProxyRoute | null;
+  private readonly noProxy: NoProxyEntry[] | '*';
+
+  constructor(config: ProxyConfig = {}) {
+    this.rules = (config.rules || []).map(rule => this.compileRule(rule));
+    this.httpRoute = this.toRoute(config.httpProxy);
+    this.httpsRoute = this.toRoute(config.httpsProxy);
+
+    const noProxy = (config.noProxy || []).map(entry => entry.trim().toLowerCase()).filter(entry => entry);
+    this.noProxy = noProxy.includes('*') ? '*' : noProxy.map(entry => this.compileNoProxyEntry(entry));
+  }
+
+  select(url: string): ProxyRoute | null {
+    const parsedUrl = new URL(url);
+    const hostname = parsedUrl.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+    const port = parsedUrl.port ? parseInt(parsedUrl.port) : parsedUrl.protocol === 'https:' ? 443 : 80;
+
+    if (this.isNoProxy(hostname, port)) {
+      return null;
+    }
+
+    const rule = this.rules.find(compiled => compiled.hostPattern.test(hostname));
+    if (rule) {
+      return rule.route;
+    }
+
+    return parsedUrl.protocol === 'https:' ? this.httpsRoute : this.httpRoute;
+  }
+
+  private isNoProxy(hostname: string, port: number): boolean {
+    if (this.noProxy === '*') {
+      return true;
+    }
+
+    const family = isIP(hostname);
+
+    return this.noProxy.some(entry => {
+      if (entry.port !== undefined && entry.port !== port) {
+        return false;
+      }
+
+      if (entry.addresses) {
+        return family !== 0 && entry.addresses.check(hostname, family === 6 ? 'ipv6' : 'ipv4');
+      }
+
+      return hostname === entry.host || hostname.endsWith(`.${entry.host}`);
+    });
+  }
+
+  private compileRule(rule: ProxyRule): CompiledProxyRule {
+    if (!rule || !rule.host || !rule.proxy) {
+      throw new Error(`Invalid proxy rule ${JSON.stringify(rule)}: a rule needs a host and a proxy`);
+    }
+
+    return {
+      hostPattern: compileHostPattern(rule.host),
+      route: rule.proxy === DIRECT ? null : this.toRoute(rule.proxy),
+    };
+  }
+
+  private compileNoProxyEntry(entry: string): NoProxyEntry {
+    // "host:port", "[v6]:port" and bare IPv6 addresses, which contain colons themselves
+    const match = isIP(entry) ? null : entry.match(/^(.*?)(?::(\d+))?$/);
+    const host = (match ? match[1] : entry).replace(/^\[(.*)\]$/, '$1').replace(/^\*?\./, '');
+    const port = match?.[2] !== undefined ? parseInt(match[2]) : undefined;
+
+    if (isIP(host.split('/')[0])) {
+      const addresses = compileCidr(host);
+      if (!addresses) {
+        throw new Error(`Invalid NO_PROXY entry '${entry}': '${host}' is not a valid CIDR range`);
+      }
+      return { addresses, port };
+    }
+
+    return { host, port };
+  }
+
+  private toRoute(proxy: string | undefined): ProxyRoute | null {
+    if (!proxy) {
+      return null;
+    }
+
+    let url: URL;
+    try {
+      // Like curl, a proxy given without a scheme is an HTTP proxy
+      url = new URL(proxy.includes('://') ? proxy : `http://${proxy}`);
+    } catch {
+      throw new Error(`Invalid proxy URL '${proxy}'`);
+    }
+
+    if (!PROXY_PROTOCOLS.includes(url.protocol)) {
+      throw new Error(`Unsupported proxy protocol '${url.protocol}' in '${url.host}': use http, https or socks5`);
+    }
+
+    return { url, label: `${url.protocol}//${url.host}` };
+  }
+}
+
+/**
+ * Loads proxy rules from FETCH_PROXY_CONFIG_FILE (a YAML or JSON file) or
+ * FETCH_PROXY_CONFIG (inline YAML or JSON). The default proxies and NO_PROXY
+ * come from the usual HTTP_PROXY, HTTPS_PROXY, ALL_PROXY and NO_PROXY
+ * variables, in upper or lower case, unless the config sets them.
+ */
+export function loadProxyRouter(env: NodeJS.ProcessEnv = process.env): ProxyRouter {
+  let source: string | undefined;
+  let origin = 'FETCH_PROXY_CONFIG';
+
+  if (env.FETCH_PROXY_CONFIG_FILE) {
+    origin = env.FETCH_PROXY_CONFIG_FILE;
+    source = readFileSync(env.FETCH_PROXY_CONFIG_FILE, 'utf8');
+  } else if (env.FETCH_PROXY_CONFIG) {
+    source = env.FETCH_PROXY_CONFIG;
+  }
+
+  let config: ProxyConfig = {};
+  if (source !== undefined) {
+    try {
+      config = parseYaml(source) || {};
+    } catch (error) {
+      throw new Error(`Failed to parse proxy config from ${origin}: ${error.message}`);
+    }
+  }
+
+  const fromEnv = (name: string) => env[name] || env[name.toLowerCase()] || undefined;
+  const allProxy = fromEnv('ALL_PROXY');
+
+  return new ProxyRouter({
+    rules: config.rules,
+    httpProxy: config.httpProxy ?? fromEnv('HTTP_PROXY') ?? allProxy,
+    httpsProxy: config.httpsProxy ?? fromEnv('HTTPS_PROXY') ?? allProxy,
+    noProxy: config.noProxy ?? fromEnv('NO_PROXY')?.split(','),
+  });
+}
@@ -0,0 +1,80 @@
+import * as http from 'http';
+import { EventEmitter } from 'events';
+
+export type TimingPhase = 'dns' | 'connect' | 'tls' | 'ttfb' | 'download';
+
+/**
+ * How long each phase of a request took, in milliseconds. The phases follow
+ * one another: `ttfb` is the wait for the response headers once the connection
+ * is up, and `download` the time spent reading the body. Phases that did not
+ * happen, such as TLS over plain HTTP, are null. `totalMs` covers the whole
+ * attempt, redirects included.
+ */
+export interface FetchTimings {
+  dnsMs: number | null;
+  connectMs: number | null;
+  tlsMs: number | null;
+  ttfbMs: number | null;
+  downloadMs: number | null;
+  totalMs: number;
+}
+
+type TimingMark = 'dnsStart' | 'dnsEnd' | 'socketStart' | 'connected' | 'secured' | 'firstByte' | 'downloadEnd';
+
+/**
+ * Collects the moments a single request passes through. One timer is used per
+ * request, so after a redirect the timings describe the last hop.
+ */
+export class RequestTimer {
+  private readonly marks: Partial<Record<TimingMark, number>> = {};
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  mark(name: TimingMark): void {
+    this.marks[name] = this.now();
+  }
+
+  /**
+   * Marks the connect and TLS handshake of every socket the agent opens. Agents
+   * here are created per request without keep-alive, so that is one socket.
+   * Through a proxy, connecting includes setting up the tunnel.
+   */
+  watchAgent(agent: http.Agent): void {
+    const createConnection = agent.createConnection.bind(agent) as http.Agent['createConnection'];
+
+    agent.createConnection = (options, callback) => {
+      this.mark('socketStart');
+      const socket: EventEmitter | undefined = createConnection(options, (error, stream) => {
+        // Sockets handed over through the callback, such as proxy tunnels, are connected already
+        if (stream) {
+          this.mark('connected');
+          stream.once('secureConnect', () => this.mark('secured'));
+        }
+        callback?.(error, stream);
+      });
+
+      socket?.once('connect', () => this.mark('connected'));
+      socket?.once('secureConnect', () => this.mark('secured'));
+      return socket as ReturnType<http.Agent['createConnection']>;
+    };
+  }
+
+  getTimings(startTime: number): FetchTimings {
+    const { dnsStart, dnsEnd, socketStart, connected, secured, firstByte, downloadEnd } = this.marks;
+    // The request goes out once the connection is ready, or after the lookup when the socket was not seen
+    const requestSent = secured ?? connected ?? dnsEnd;
+
+    return {
+      dnsMs: this.between(dnsStart, dnsEnd),
+      connectMs: this.between(socketStart, connected),
+      tlsMs: this.between(connected, secured),
+      ttfbMs: this.between(requestSent, firstByte),
+      downloadMs: this.between(firstByte, downloadEnd),
+      totalMs: this.now() - startTime,
+    };
+  }
+
+  private between(from: number | undefined, to: number | undefined): number | null {
+    return from !== undefined && to !== undefined ? Math.max(0, to - from) : null;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Per-request retry overrides. Anything left out falls back to the global
+ * policy configured through the FETCH_RETRY_* environment variables.
+ */
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  jitter?: number;
+  retryOnStatus?: number[];
+  retryOnErrorCodes?: string[];
+}
+
+/**
+ * The retry policy as it was applied, with defaults filled in.
+ */
+export type RetryPolicy = Required<RetryOptions>;
+
+// Methods that are safe to send twice. Others are only retried when the request asks for it.
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+const parseList = (value: string | undefined): string[] | undefined =>
+  value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+
+// 0 is a valid jitter, so it cannot fall back with ||. NaN fails both comparisons.
+const parseJitter = (value: string | undefined): number => {
+  const jitter = parseFloat(value);
+  return jitter >= 0 && jitter <= 1 ? jitter : 0.5;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: parseInt(process.env.FETCH_RETRY_MAX_ATTEMPTS) || 1,
+  baseDelayMs: parseInt(process.env.FETCH_RETRY_BASE_MS) || 500,
+  maxDelayMs: parseInt(process.env.FETCH_RETRY_MAX_MS) || 30000,
+  jitter: parseJitter(process.env.FETCH_RETRY_JITTER),
+  retryOnStatus: parseList(process.env.FETCH_RETRY_STATUSES)?.map(Number) || [408, 425, 429, 500, 502, 503, 504],
+  retryOnErrorCodes: parseList(process.env.FETCH_RETRY_ERROR_CODES) || [
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'EPIPE',
+    'EAI_AGAIN',
+    'ENETUNREACH',
+    'EHOSTUNREACH',
+  ],
+};
+
+/**
+ * Merges per-request overrides into the global policy. Without overrides,
+ * non-idempotent methods get a single attempt, so a POST is never sent twice
+ * unless the request opted in.
+ */
+export function resolveRetryPolicy(method: string, options?: RetryOptions): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options };
+
+  if (!options && !IDEMPOTENT_METHODS.includes(method)) {
+    policy.maxAttempts = 1;
+  }
+
+  return policy;
+}
+
+/**
+ * Exponential backoff capped at `maxDelayMs`. Jitter takes up to that fraction
+ * off the delay at random, so clients that failed together do not retry together.
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay * (1 - policy.jitter * random()));
+}
+
+/**
+ * Milliseconds to wait according to a Retry-After header, which holds either
+ * seconds or an HTTP date. Returns undefined when the header is missing or invalid.
+ */
+export function parseRetryAfter(header: unknown, now: number = Date.now()): number | undefined {
+  if (typeof header !== 'string' || header.trim() === '') {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(header.trim())) {
+    return parseInt(header) * 1000;
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -0,0 +1,130 @@
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  path: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+}
+
+export interface RobotsDecision {
+  allowed: boolean;
+  rule?: RobotsRule;
+}
+
+/**
+ * Parsed robots.txt following RFC 9309: the groups whose user-agent is our
+ * product token apply, falling back to the `*` groups. Within the applying
+ * groups the longest matching path wins, and `allow` wins a tie.
+ */
+export class RobotsTxt {
+  constructor(readonly groups: RobotsGroup[]) {}
+
+  static parse(content: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let collectingAgents = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        // Consecutive user-agent lines share one group
+        if (!collectingAgents) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+          collectingAgents = true;
+        }
+        current.userAgents.push(value.toLowerCase());
+        continue;
+      }
+
+      collectingAgents = false;
+      if (!current) {
+        continue;
+      }
+
+      if ((field === 'allow' || field === 'disallow') && value !== '') {
+        current.rules.push({ type: field, path: value });
+      } else if (field === 'crawl-delay' && !isNaN(parseFloat(value))) {
+        current.crawlDelaySeconds = parseFloat(value);
+      }
+    }
+
+    return new RobotsTxt(groups);
+  }
+
+  /**
+   * The group that applies to a User-Agent, or null when none does. User-agent
+   * lines match the product token exactly, ignoring case, and the groups of
+   * an agent listed more than once are merged into one.
+   */
+  getGroup(userAgent: string): RobotsGroup | null {
+    const productToken = userAgent.split('/')[0].trim().toLowerCase();
+    let matching = this.groups.filter(group => group.userAgents.includes(productToken));
+    if (matching.length === 0) {
+      matching = this.groups.filter(group => group.userAgents.includes('*'));
+    }
+
+    if (matching.length === 0) {
+      return null;
+    }
+
+    return {
+      userAgents: [...new Set(matching.flatMap(group => group.userAgents))],
+      rules: matching.flatMap(group => group.rules),
+      crawlDelaySeconds: matching.find(group => group.crawlDelaySeconds !== undefined)?.crawlDelaySeconds,
+    };
+  }
+
+  isAllowed(pathWithQuery: string, userAgent: string): RobotsDecision {
+    const group = this.getGroup(userAgent);
+    if (!group) {
+      return { allowed: true };
+    }
+
+    let match: RobotsRule | undefined;
+    for (const rule of group.rules) {
+      if (!this.matches(rule.path, pathWithQuery)) {
+        continue;
+      }
+
+      if (
+        !match ||
+        rule.path.length > match.path.length ||
+        (rule.path.length === match.path.length && rule.type === 'allow')
+      ) {
+        match = rule;
+      }
+    }
+
+    return { allowed: !match || match.type === 'allow', rule: match };
+  }
+
+  getCrawlDelaySeconds(userAgent: string): number | undefined {
+    return this.getGroup(userAgent)?.crawlDelaySeconds;
+  }
+
+  /**
+   * Path patterns support `*` for any characters and a trailing `$` to anchor the end.
+   */
+  private matches(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const regex = body
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+  }
+}
@@ -0,0 +1,192 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { RobotsDecision, RobotsTxt } from './robots-txt';
+
+export const ROBOTS_OPTIONS = 'ROBOTS_OPTIONS';
+
+export interface RobotsOptions {
+  // Whether fetches respect robots.txt when the request does not say
+  enabled: boolean;
+  cacheTtlMs: number;
+  // Upper bound on the Crawl-delay we honor, so one robots.txt cannot stall a fetch indefinitely
+  maxCrawlDelayMs: number;
+}
+
+const DEFAULT_OPTIONS: RobotsOptions = {
+  enabled: process.env.FETCH_RESPECT_ROBOTS === 'true',
+  cacheTtlMs: parseInt(process.env.ROBOTS_CACHE_TTL_MS) || 24 * 60 * 60 * 1000,
+  maxCrawlDelayMs: parseInt(process.env.ROBOTS_MAX_CRAWL_DELAY_MS) || 30000,
+};
+
+// A server error is usually temporary, so the disallow-all it implies is cached for less time
+const UNREACHABLE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * How a robots.txt fetch ended, per RFC 9309: `parsed` when it was served,
+ * `unavailable` (4xx, everything allowed) or `unreachable` (5xx or network
+ * error, everything disallowed).
+ */
+export type RobotsStatus = 'parsed' | 'unavailable' | 'unreachable';
+
+export interface RobotsTxtResponse {
+  responseStatus?: number;
+  body?: string;
+  error?: string;
+}
+
+export interface RobotsCacheEntry {
+  origin: string;
+  status: RobotsStatus;
+  responseStatus?: number;
+  error?: string;
+  robots: RobotsTxt;
+  fetchedAt: Date;
+  expiresAt: Date;
+}
+
+export class BlockedByRobotsError extends Error {
+  readonly code = 'blocked_by_robots';
+
+  constructor(readonly url: string, entry: RobotsCacheEntry, decision: RobotsDecision) {
+    super(
+      entry.status === 'unreachable'
+        ? `Blocked by robots.txt: ${entry.origin}/robots.txt could not be fetched (${entry.error || `HTTP ${entry.responseStatus}`}), so every path is disallowed`
+        : `Blocked by robots.txt: 'Disallow: ${decision.rule?.path}' matches ${url}`,
+    );
+    this.name = 'BlockedByRobotsError';
+  }
+}
+
+/**
+ * Caches robots.txt per origin and answers whether a URL may be fetched. The
+ * fetching itself is left to the caller, which passes a loader, so robots.txt
+ * goes through the same security checks as any other request.
+ */
+@Injectable()
+export class RobotsService {
+  private readonly logger = new Logger(RobotsService.name);
+  private readonly options: RobotsOptions;
+  private readonly cache = new Map<string, RobotsCacheEntry>();
+  // Concurrent fetches to a new origin share one robots.txt request
+  private readonly pending = new Map<string, Promise<RobotsCacheEntry>>();
+  private readonly nextFetchAt = new Map<string, number>();
+
+  constructor(@Optional() @Inject(ROBOTS_OPTIONS) options?: Partial<RobotsOptions>) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  isEnabledByDefault(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Checks `url` against the robots.txt of its origin, loading it first when
+   * it is not cached or has expired.
+   */
+  async check(
+    url: string,
+    userAgent: string,
+    loader: (robotsUrl: string) => Promise<RobotsTxtResponse>,
+  ): Promise<{ decision: RobotsDecision; entry: RobotsCacheEntry }> {
+    const parsedUrl = new URL(url);
+    const entry = await this.getEntry(parsedUrl.origin, loader);
+    const decision = entry.robots.isAllowed(`${parsedUrl.pathname}${parsedUrl.search}`, userAgent);
+
+    return { decision, entry };
+  }
+
+  /**
+   * Milliseconds to wait before fetching from `origin` so requests stay
+   * Crawl-delay apart, and reserves the slot after that wait.
+   */
+  reserveCrawlDelay(entry: RobotsCacheEntry, userAgent: string, now: number = Date.now()): number {
+    const crawlDelaySeconds = entry.robots.getCrawlDelaySeconds(userAgent);
+    if (!crawlDelaySeconds) {
+      return 0;
+    }
+
+    const delayMs = Math.min(crawlDelaySeconds * 1000, this.options.maxCrawlDelayMs);
+    const startAt = Math.max(now, this.nextFetchAt.get(entry.origin) ?? now);
+    this.nextFetchAt.set(entry.origin, startAt + delayMs);
+
+    return startAt - now;
+  }
+
+  getEntries(now: number = Date.now()): RobotsCacheEntry[] {
+    return [...this.cache.values()].filter(entry => entry.expiresAt.getTime() > now);
+  }
+
+  getEntry(origin: string, loader: (robotsUrl: string) => Promise<RobotsTxtResponse>): Promise<RobotsCacheEntry> {
+    const cached = this.cache.get(origin);
+    if (cached && cached.expiresAt.getTime() > Date.now()) {
+      return Promise.resolve(cached);
+    }
+
+    if (!this.pending.has(origin)) {
+      const promise = this.load(origin, loader).finally(() => this.pending.delete(origin));
+      this.pending.set(origin, promise);
+    }
+
+    return this.pending.get(origin);
+  }
+
+  /**
+   * Drops the cached robots.txt of one origin, or of every origin.
+   * Returns the number of entries removed.
+   */
+  clear(origin?: string): number {
+    if (origin === undefined) {
+      const count = this.cache.size;
+      this.cache.clear();
+      this.nextFetchAt.clear();
+      return count;
+    }
+
+    this.nextFetchAt.delete(origin);
+    return this.cache.delete(origin) ? 1 : 0;
+  }
+
+  private async load(origin: string, loader: (robotsUrl: string) => Promise<RobotsTxtResponse>): Promise<RobotsCacheEntry> {
+    let response: RobotsTxtResponse;
+    try {
+      response = await loader(`${origin}/robots.txt`);
+    } catch (error) {
+      response = { error: error.message };
+    }
+
+    const entry = this.toEntry(origin, response, new Date());
+    this.cache.set(origin, entry);
+    this.logger.log(`Cached robots.txt of ${origin} (${entry.status}) until ${entry.expiresAt.toISOString()}`);
+
+    return entry;
+  }
+
+  private toEntry(origin: string, response: RobotsTxtResponse, fetchedAt: Date): RobotsCacheEntry {
+    const { responseStatus, error } = response;
+    let status: RobotsStatus;
+    let robots: RobotsTxt;
+
+    if (!error && responseStatus >= 200 && responseStatus < 300) {
+      status = 'parsed';
+      robots = RobotsTxt.parse(response.body || '');
+    } else if (!error && responseStatus >= 300 && responseStatus < 500) {
+      // Includes redirect chains that were not followed to the end
+      status = 'unavailable';
+      robots = new RobotsTxt([]);
+    } else {
+      status = 'unreachable';
+      robots = new RobotsTxt([{ userAgents: ['*'], rules: [{ type: 'disallow', path: '/' }] }]);
+    }
+
+    const ttlMs = status === 'unreachable' ? Math.min(UNREACHABLE_TTL_MS, this.options.cacheTtlMs) : this.options.cacheTtlMs;
+
+    return {
+      origin,
+      status,
+      responseStatus,
+      error,
+      robots,
+      fetchedAt,
+      expiresAt: new Date(fetchedAt.getTime() + ttlMs),
+    };
+  }
+}
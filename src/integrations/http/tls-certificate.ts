@@ -0,0 +1,100 @@
+import { Certificate, PeerCertificate, TLSSocket } from 'tls';
+
+/**
+ * The certificate an HTTPS server presented, and the TLS parameters of the
+ * connection it was presented on.
+ */
+export interface TlsCertificateInfo {
+  subject: string;
+  issuer: string;
+  // Entries as the certificate lists them, such as `DNS:example.com`
+  subjectAltNames: string[];
+  validFrom: string;
+  validTo: string;
+  fingerprint256: string;
+  serialNumber: string;
+  protocol: string | null;
+  cipher: string | null;
+}
+
+export type TlsErrorReason =
+  | 'expired'
+  | 'not_yet_valid'
+  | 'self_signed'
+  | 'untrusted_issuer'
+  | 'hostname_mismatch'
+  | 'revoked'
+  | 'handshake_failed';
+
+/**
+ * Why the TLS connection to a server was refused. `code` is the OpenSSL or
+ * Node.js error code, `reason` groups the codes into what went wrong.
+ */
+export interface TlsError {
+  code: string;
+  reason: TlsErrorReason;
+  message: string;
+}
+
+const TLS_ERROR_REASONS: Record<string, TlsErrorReason> = {
+  CERT_HAS_EXPIRED: 'expired',
+  CERT_NOT_YET_VALID: 'not_yet_valid',
+  DEPTH_ZERO_SELF_SIGNED_CERT: 'self_signed',
+  SELF_SIGNED_CERT_IN_CHAIN: 'self_signed',
+  UNABLE_TO_VERIFY_LEAF_SIGNATURE: 'untrusted_issuer',
+  UNABLE_TO_GET_ISSUER_CERT: 'untrusted_issuer',
+  UNABLE_TO_GET_ISSUER_CERT_LOCALLY: 'untrusted_issuer',
+  CERT_UNTRUSTED: 'untrusted_issuer',
+  CERT_SIGNATURE_FAILURE: 'untrusted_issuer',
+  ERR_TLS_CERT_ALTNAME_INVALID: 'hostname_mismatch',
+  CERT_REVOKED: 'revoked',
+  EPROTO: 'handshake_failed',
+};
+
+/**
+ * Reads the peer certificate off the socket a response arrived on. Returns
+ * null for plain HTTP, or when the socket is already gone.
+ */
+export function getCertificateInfo(socket: unknown): TlsCertificateInfo | null {
+  if (!(socket instanceof TLSSocket)) {
+    return null;
+  }
+
+  const certificate: PeerCertificate = socket.getPeerCertificate();
+  if (!certificate || Object.keys(certificate).length === 0) {
+    return null;
+  }
+
+  return {
+    subject: formatName(certificate.subject),
+    issuer: formatName(certificate.issuer),
+    subjectAltNames: certificate.subjectaltname ? certificate.subjectaltname.split(', ') : [],
+    validFrom: new Date(certificate.valid_from).toISOString(),
+    validTo: new Date(certificate.valid_to).toISOString(),
+    fingerprint256: certificate.fingerprint256,
+    serialNumber: certificate.serialNumber,
+    protocol: socket.getProtocol(),
+    cipher: socket.getCipher()?.name ?? null,
+  };
+}
+
+/**
+ * Recognizes certificate and handshake failures among request errors.
+ * Returns undefined for anything else.
+ */
+export function getTlsError(error: { code?: string; message?: string }): TlsError | undefined {
+  const code = error?.code;
+  const reason = code && (TLS_ERROR_REASONS[code] ?? (code.startsWith('ERR_SSL_') ? 'handshake_failed' : undefined));
+  if (!reason) {
+    return undefined;
+  }
+
+  return { code, reason, message: error.message };
+}
+
+function formatName(name: Certificate | undefined): string {
+  // Attributes that occur more than once, such as several OUs, come as arrays
+  return Object.entries(name ?? {})
+    .map(([key, value]: [string, string | string[]]) => `${key}=${Array.isArray(value) ? value.join('+') : value}`)
+    .join(', ');
+}
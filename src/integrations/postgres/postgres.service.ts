@@ -1,9 +1,19 @@
-import { Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit, ServiceUnavailableException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource, QueryFailedError } from 'typeorm';
-import { UrlFetch } from '../../url-fetcher/entities/url-fetch.entity';
-import { FetchResult } from '../http/http.service';
-import { PaginationOptions, PaginatedResult } from '../../url-fetcher/url-fetcher.service';
+import { Repository, DataSource, QueryFailedError, In } from 'typeorm';
+import { URL_FETCH_FIELDS, UrlFetch } from '../../url-fetcher/entities/url-fetch.entity';
+import { FetchJob, FetchJobItem } from '../../url-fetcher/entities/fetch-job.entity';
+import { UrlFetchHistory } from '../../url-fetcher/entities/url-fetch-history.entity';
+import { Monitor } from '../../monitors/entities/monitor.entity';
+import { hashContent } from '../../url-fetcher/content-diff';
+import { WebhookSubscription } from '../../webhooks/entities/webhook-subscription.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../../webhooks/entities/webhook-delivery.entity';
+import { Credential } from '../../credentials/entities/credential.entity';
+import { FetchAttempt } from '../../url-fetcher/entities/fetch-attempt.entity';
+import { ConditionalValidators, FetchAttemptResult, FetchResult } from '../http/http.service';
+import { PaginationOptions, PaginatedResult, RejectedUrl, UrlFetchRequest } from '../../url-fetcher/url-fetcher.service';
+import { encodeCursor } from '../../url-fetcher/listing-cursor';
+import { ExpiringCertificate } from '../../monitors/monitors.service';
 import { MetricsService } from '../../metrics/metrics.service';
 
 const databaseErrorCodes = [
@@ -36,8 +46,31 @@ const connectionErrorMessages = [
   'lock',
 ];
 
+// Bodies are searched up to this many characters, which keeps their tsvector
+// under Postgres' 1 MB limit whatever the text looks like
+const SEARCH_MAX_CHARS = 250000;
+
+// The 'simple' configuration does not stem, so codes such as SKUs match as written.
+// Searches must use this exact expression to be served by idx_response_body_search.
+const BODY_SEARCH_TEXT = `left(coalesce(response_body, ''), ${SEARCH_MAX_CHARS})`;
+const BODY_SEARCH_VECTOR = `to_tsvector('simple', ${BODY_SEARCH_TEXT})`;
+
+const SEARCH_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=3, MaxWords=20, MinWords=5, FragmentDelimiter=" ... "';
+
+// The hash of the last body stored for a row. Failed fetches store no body, so
+// after one the hash comes from the history, and A, error, A is not a change.
+const LAST_CONTENT_HASH = `COALESCE("url_fetches"."content_hash", (
+  SELECT content_hash FROM url_fetch_history
+  WHERE url_fetch_id = "url_fetches"."id" AND content_hash IS NOT NULL
+  ORDER BY fetched_at DESC, id DESC
+  LIMIT 1
+))`;
+
+// The headers a 304 carries to update the stored response (RFC 9110 §15.4.5, RFC 9111 §4.3.4)
+const NOT_MODIFIED_HEADERS = ['cache-control', 'content-location', 'date', 'etag', 'expires', 'last-modified', 'vary'];
+
 @Injectable()
-export class PostgresService {
+export class PostgresService implements OnModuleInit {
   private readonly logger = new Logger(PostgresService.name);
 
   constructor(
@@ -45,8 +78,10 @@ export class PostgresService {
     private urlFetchRepository: Repository<UrlFetch>,
     private dataSource: DataSource,
     private readonly metricsService: MetricsService,
-  ) {
-    this.initializeDatabase();
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.initializeDatabase();
   }
 
   private handleDatabaseError(error: unknown, context: string): never {
@@ -110,12 +145,242 @@ export class PostgresService {
       } else {
         this.logger.log('url_fetches table already exists');
       }
+
+      await this.applySchemaUpdates();
     } catch (error) {
       this.logger.error('Failed to initialize database:', error);
       this.handleDatabaseError(error, 'Database initialization failed');
     }
   }
 
+  /**
+   * Creates tables added after the initial schema. Every statement is idempotent
+   * so it is safe to run against both fresh and existing databases.
+   */
+  private async applySchemaUpdates(): Promise<void> {
+    await this.dataSource.query(`
+      CREATE TABLE IF NOT EXISTS fetch_jobs (
+        id SERIAL PRIMARY KEY,
+        status TEXT NOT NULL DEFAULT 'pending',
+        items JSONB NOT NULL,
+        total_urls INT NOT NULL,
+        completed_urls INT NOT NULL DEFAULT 0,
+        failed_urls INT NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ DEFAULT now(),
+        started_at TIMESTAMPTZ,
+        completed_at TIMESTAMPTZ,
+        duration_ms INT
+      );
+      CREATE INDEX IF NOT EXISTS idx_fetch_jobs_status ON fetch_jobs (status);
+    `);
+
+    await this.dataSource.query(`
+      CREATE TABLE IF NOT EXISTS url_fetch_history (
+        id SERIAL PRIMARY KEY,
+        url_fetch_id INT NOT NULL,
+        url TEXT NOT NULL,
+        response_status INT,
+        response_headers JSONB,
+        response_body TEXT,
+        content_type TEXT,
+        fetched_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+      CREATE INDEX IF NOT EXISTS idx_history_url_fetched_at ON url_fetch_history (url, fetched_at DESC);
+
+      INSERT INTO url_fetch_history (url_fetch_id, url, response_status, response_headers, response_body, content_type, fetched_at)
+      SELECT id, url, response_status, response_headers, response_body, content_type, fetched_at
+      FROM url_fetches
+      WHERE NOT EXISTS (SELECT 1 FROM url_fetch_history);
+    `);
+
+    await this.dataSource.query(`
+      CREATE TABLE IF NOT EXISTS monitors (
+        id SERIAL PRIMARY KEY,
+        url TEXT NOT NULL,
+        interval_seconds INT,
+        cron_expression TEXT,
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        last_run_at TIMESTAMPTZ,
+        next_run_at TIMESTAMPTZ,
+        last_status INT,
+        last_error TEXT,
+        consecutive_failures INT NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ DEFAULT now(),
+        updated_at TIMESTAMPTZ DEFAULT now()
+      );
+      CREATE INDEX IF NOT EXISTS idx_monitors_next_run_at ON monitors (next_run_at) WHERE enabled;
+    `);
+
+    await this.dataSource.query(`
+      ALTER TABLE url_fetches
+        ADD COLUMN IF NOT EXISTS content_hash TEXT,
+        ADD COLUMN IF NOT EXISTS changed BOOLEAN;
+      ALTER TABLE url_fetch_history
+        ADD COLUMN IF NOT EXISTS content_hash TEXT,
+        ADD COLUMN IF NOT EXISTS changed BOOLEAN;
+      CREATE INDEX IF NOT EXISTS idx_changed ON url_fetches (changed);
+      CREATE INDEX IF NOT EXISTS idx_history_url_fetch_id ON url_fetch_history (url_fetch_id, fetched_at DESC);
+    `);
+
+    await this.dataSource.query(`
+      CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+        id SERIAL PRIMARY KEY,
+        target_url TEXT NOT NULL,
+        events JSONB NOT NULL,
+        secret TEXT NOT NULL,
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        created_at TIMESTAMPTZ DEFAULT now()
+      );
+
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id SERIAL PRIMARY KEY,
+        subscription_id INT NOT NULL REFERENCES webhook_subscriptions (id) ON DELETE CASCADE,
+        event TEXT NOT NULL,
+        payload JSONB NOT NULL,
+        attempt INT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        response_status INT,
+        error TEXT,
+        duration_ms INT,
+        next_attempt_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT now(),
+        delivered_at TIMESTAMPTZ
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries (subscription_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+    `);
+
+    await this.dataSource.query(`
+      ALTER TABLE url_fetches ADD COLUMN IF NOT EXISTS request_options JSONB;
+      ALTER TABLE url_fetch_history ADD COLUMN IF NOT EXISTS request_options JSONB;
+    `);
+
+    await this.dataSource.query(`
+      ALTER TABLE url_fetches
+        ADD COLUMN IF NOT EXISTS body_truncated BOOLEAN,
+        ADD COLUMN IF NOT EXISTS body_size_bytes INT,
+        ADD COLUMN IF NOT EXISTS download_duration_ms INT;
+      ALTER TABLE url_fetch_history
+        ADD COLUMN IF NOT EXISTS body_truncated BOOLEAN,
+        ADD COLUMN IF NOT EXISTS body_size_bytes INT,
+        ADD COLUMN IF NOT EXISTS download_duration_ms INT;
+    `);
+
+    await this.dataSource.query(`
+      ALTER TABLE url_fetches ADD COLUMN IF NOT EXISTS is_binary BOOLEAN;
+      ALTER TABLE url_fetch_history ADD COLUMN IF NOT EXISTS is_binary BOOLEAN;
+
+      CREATE TABLE IF NOT EXISTS fetch_blobs (
+        key TEXT PRIMARY KEY,
+        data BYTEA NOT NULL,
+        size_bytes INT NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT now()
+      );
+    `);
+
+    await this.dataSource.query(`
+      ALTER TABLE url_fetches ADD COLUMN IF NOT EXISTS attempts INT;
+      ALTER TABLE url_fetch_history ADD COLUMN IF NOT EXISTS attempts INT;
+
+      CREATE TABLE IF NOT EXISTS fetch_attempts (
+        id SERIAL PRIMARY KEY,
+        url_fetch_id INT NOT NULL,
+        history_id INT,
+        url TEXT NOT NULL,
+        attempt INT NOT NULL,
+        response_status INT,
+        error TEXT,
+        error_code TEXT,
+        duration_ms INT NOT NULL,
+        retry_delay_ms INT,
+        started_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_fetch_attempts_url_fetch_id ON fetch_attempts (url_fetch_id, started_at DESC);
+    `);
+
+    await this.dataSource.query(`
+      ALTER TABLE url_fetches ADD COLUMN IF NOT EXISTS error_code TEXT;
+      ALTER TABLE url_fetch_history ADD COLUMN IF NOT EXISTS error_code TEXT;
+    `);
+
+    await this.dataSource.query(`
+      ALTER TABLE url_fetches ADD COLUMN IF NOT EXISTS not_modified BOOLEAN;
+      ALTER TABLE url_fetch_history ADD COLUMN IF NOT EXISTS not_modified BOOLEAN;
+    `);
+
+    await this.dataSource.query(`
+      ALTER TABLE url_fetches
+        ADD COLUMN IF NOT EXISTS redirect_chain JSONB,
+        ADD COLUMN IF NOT EXISTS final_url TEXT,
+        ADD COLUMN IF NOT EXISTS final_host TEXT;
+      ALTER TABLE url_fetch_history
+        ADD COLUMN IF NOT EXISTS redirect_chain JSONB,
+        ADD COLUMN IF NOT EXISTS final_url TEXT,
+        ADD COLUMN IF NOT EXISTS final_host TEXT;
+      CREATE INDEX IF NOT EXISTS idx_final_host ON url_fetches (final_host);
+    `);
+
+    await this.dataSource.query(`
+      ALTER TABLE url_fetches ADD COLUMN IF NOT EXISTS timings JSONB;
+      ALTER TABLE url_fetch_history ADD COLUMN IF NOT EXISTS timings JSONB;
+    `);
+
+    await this.dataSource.query(`
+      ALTER TABLE url_fetches
+        ADD COLUMN IF NOT EXISTS tls_certificate JSONB,
+        ADD COLUMN IF NOT EXISTS tls_error JSONB;
+      ALTER TABLE url_fetch_history
+        ADD COLUMN IF NOT EXISTS tls_certificate JSONB,
+        ADD COLUMN IF NOT EXISTS tls_error JSONB;
+    `);
+
+    await this.dataSource.query(`
+      ALTER TABLE url_fetches ADD COLUMN IF NOT EXISTS proxy TEXT;
+      ALTER TABLE url_fetch_history ADD COLUMN IF NOT EXISTS proxy TEXT;
+    `);
+
+    await this.dataSource.query(`
+      CREATE TABLE IF NOT EXISTS credentials (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        host_pattern TEXT NOT NULL,
+        type TEXT NOT NULL,
+        username TEXT,
+        header_name TEXT,
+        encrypted_secret TEXT NOT NULL,
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        created_at TIMESTAMPTZ DEFAULT now(),
+        updated_at TIMESTAMPTZ DEFAULT now()
+      );
+
+      ALTER TABLE url_fetches ADD COLUMN IF NOT EXISTS credential_id INT;
+      ALTER TABLE url_fetch_history ADD COLUMN IF NOT EXISTS credential_id INT;
+    `);
+
+    await this.dataSource.query(`
+      ALTER TABLE url_fetches ADD COLUMN IF NOT EXISTS error_message TEXT;
+      ALTER TABLE url_fetch_history ADD COLUMN IF NOT EXISTS error_message TEXT;
+      CREATE INDEX IF NOT EXISTS idx_error_code ON url_fetches (error_code);
+    `);
+
+    await this.dataSource.query(`
+      ALTER TABLE fetch_jobs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;
+    `);
+
+    await this.dataSource.query(`
+      CREATE INDEX IF NOT EXISTS idx_response_body_search ON url_fetches USING gin (${BODY_SEARCH_VECTOR});
+      CREATE INDEX IF NOT EXISTS idx_fetched_at_id ON url_fetches (fetched_at DESC, id DESC);
+    `);
+
+    // Recreated last so the view picks up columns added above
+    await this.dataSource.query(`
+      CREATE OR REPLACE VIEW url_fetch_history_latest AS
+      SELECT DISTINCT ON (url) *
+      FROM url_fetch_history
+      ORDER BY url, fetched_at DESC, id DESC;
+    `);
+  }
+
   async saveFetchResults(results: FetchResult[]): Promise<UrlFetch[]> {
     const startTime = Date.now();
     
@@ -123,39 +388,22 @@ export class PostgresService {
       const savedResults: UrlFetch[] = [];
       
       for (const result of results) {
-        // Use upsert to handle duplicate URLs
-        const upsertResult = await this.urlFetchRepository
-          .createQueryBuilder()
-          .insert()
-          .into(UrlFetch)
-          .values({
-            url: result.url,
-            responseStatus: result.responseStatus,
-            responseHeaders: result.responseHeaders as Record<string, any>,
-            responseBody: result.responseBody,
-            contentType: result.contentType,
-          })
-          .onConflict('("url") DO UPDATE SET "response_status" = EXCLUDED."response_status", "response_headers" = EXCLUDED."response_headers", "response_body" = EXCLUDED."response_body", "content_type" = EXCLUDED."content_type", "fetched_at" = now()')
-          .returning('*')
-          .execute();
-
-        if (upsertResult.raw && upsertResult.raw[0]) {
-          const urlFetch = new UrlFetch();
-          urlFetch.id = upsertResult.raw[0].id;
-          urlFetch.url = upsertResult.raw[0].url;
-          urlFetch.responseStatus = upsertResult.raw[0].response_status;
-          urlFetch.responseHeaders = upsertResult.raw[0].response_headers;
-          urlFetch.responseBody = upsertResult.raw[0].response_body;
-          urlFetch.contentType = upsertResult.raw[0].content_type;
-          urlFetch.fetchedAt = upsertResult.raw[0].fetched_at;
+        // Without a stored row to refresh, a 304 is stored like any other response
+        const urlFetch = (result.notModified ? await this.refreshNotModified(result) : null)
+          ?? await this.upsertFetchResult(result);
+
+        if (urlFetch) {
           savedResults.push(urlFetch);
+
+          const historyId = await this.appendFetchHistory(urlFetch.id);
+          await this.saveFetchAttempts(urlFetch.id, historyId, result.url, result.attempts || []);
         }
       }
 
       const queryTime = Date.now() - startTime;
       this.metricsService.recordDatabaseQuery(queryTime, 'save_fetch_results');
 
-      this.logger.log(`Upserted ${savedResults.length} URL fetch results`);
+      this.logger.log(`Upserted ${savedResults.length} URL fetch results and appended them to the history`);
       
       return savedResults.map(result => result.toJSON() as any);
     } catch (error) {
@@ -165,6 +413,110 @@ export class PostgresService {
     }
   }
 
+  private async upsertFetchResult(result: FetchResult): Promise<UrlFetch | null> {
+    // Use upsert to handle duplicate URLs
+    const upsertResult = await this.urlFetchRepository
+      .createQueryBuilder()
+      .insert()
+      .into(UrlFetch)
+      .values({
+        url: result.url,
+        responseStatus: result.responseStatus,
+        responseHeaders: result.responseHeaders as Record<string, any>,
+        responseBody: result.responseBody,
+        contentType: result.contentType,
+        contentHash: hashContent(result.responseBytes ?? result.responseBody),
+        changed: false,
+        requestOptions: result.requestOptions,
+        bodyTruncated: result.bodyTruncated,
+        bodySizeBytes: result.bodySizeBytes,
+        downloadDurationMs: result.downloadDurationMs,
+        isBinary: result.isBinary,
+        attempts: result.attempts?.length,
+        errorCode: result.errorCode,
+        errorMessage: result.error,
+        notModified: false,
+        redirectChain: result.redirectChain,
+        finalUrl: result.finalUrl,
+        finalHost: result.finalUrl ? new URL(result.finalUrl).hostname.toLowerCase() : null,
+        timings: result.timings,
+        tlsCertificate: result.tlsCertificate,
+        tlsError: result.tlsError,
+        proxy: result.proxy,
+        credentialId: result.credentialId,
+      })
+      .onConflict(`("url") DO UPDATE SET "response_status" = EXCLUDED."response_status", "response_headers" = EXCLUDED."response_headers", "response_body" = EXCLUDED."response_body", "content_type" = EXCLUDED."content_type", "content_hash" = EXCLUDED."content_hash", "changed" = EXCLUDED."content_hash" IS NOT NULL AND EXCLUDED."content_hash" IS DISTINCT FROM ${LAST_CONTENT_HASH}, "request_options" = EXCLUDED."request_options", "body_truncated" = EXCLUDED."body_truncated", "body_size_bytes" = EXCLUDED."body_size_bytes", "download_duration_ms" = EXCLUDED."download_duration_ms", "is_binary" = EXCLUDED."is_binary", "attempts" = EXCLUDED."attempts", "error_code" = EXCLUDED."error_code", "error_message" = EXCLUDED."error_message", "not_modified" = EXCLUDED."not_modified", "redirect_chain" = EXCLUDED."redirect_chain", "final_url" = EXCLUDED."final_url", "final_host" = EXCLUDED."final_host", "timings" = EXCLUDED."timings", "tls_certificate" = EXCLUDED."tls_certificate", "tls_error" = EXCLUDED."tls_error", "proxy" = EXCLUDED."proxy", "credential_id" = EXCLUDED."credential_id", "fetched_at" = now()`)
+      .returning('*')
+      .execute();
+
+    return upsertResult.raw && upsertResult.raw[0] ? this.mapUrlFetch(upsertResult.raw[0]) : null;
+  }
+
+  /**
+   * A 304 answer means the stored body is still current, so the body and its
+   * status are kept. The validator and caching headers the 304 sent replace
+   * the stored ones, and the row's request options, timestamp, timings,
+   * certificate, proxy, credential and flags are refreshed. Returns null when
+   * there is no stored row to refresh, for example when the caller sent its
+   * own If-None-Match.
+   */
+  private async refreshNotModified(result: FetchResult): Promise<UrlFetch | null> {
+    const updatedHeaders = Object.fromEntries(
+      Object.entries(result.responseHeaders || {}).filter(([name]) => NOT_MODIFIED_HEADERS.includes(name.toLowerCase())),
+    );
+
+    const rows = await this.dataSource.query(
+      `
+      UPDATE url_fetches
+      SET not_modified = true, changed = false, response_headers = COALESCE(response_headers, '{}'::jsonb) || $7::jsonb, request_options = $8, attempts = $2, timings = $3, tls_certificate = $4, tls_error = NULL, error_code = NULL, error_message = NULL, proxy = $5, credential_id = $6, fetched_at = now()
+      WHERE url = $1
+      RETURNING *
+      `,
+      [
+        result.url,
+        result.attempts?.length ?? null,
+        result.timings ? JSON.stringify(result.timings) : null,
+        result.tlsCertificate ? JSON.stringify(result.tlsCertificate) : null,
+        result.proxy ?? null,
+        result.credentialId ?? null,
+        JSON.stringify(updatedHeaders),
+        result.requestOptions ? JSON.stringify(result.requestOptions) : null,
+      ],
+    );
+
+    return rows[0] ? this.mapUrlFetch(rows[0]) : null;
+  }
+
+  /**
+   * ETag and Last-Modified of the stored GET responses of `urls`, keyed by URL.
+   * URLs without a stored response or without either header are left out.
+   */
+  async getConditionalValidators(urls: string[]): Promise<Map<string, ConditionalValidators>> {
+    if (urls.length === 0) {
+      return new Map();
+    }
+
+    try {
+      const rows = await this.dataSource.query(
+        `
+        SELECT url, response_headers->>'etag' AS etag, response_headers->>'last-modified' AS last_modified
+        FROM url_fetches
+        WHERE url = ANY($1)
+          AND COALESCE(request_options->>'method', 'GET') = 'GET'
+          AND (response_headers ? 'etag' OR response_headers ? 'last-modified')
+        `,
+        [urls],
+      );
+
+      return new Map(rows.map(row => [
+        row.url,
+        { etag: row.etag ?? undefined, lastModified: row.last_modified ?? undefined },
+      ]));
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to retrieve conditional request validators');
+    }
+  }
+
   async getAllUrlFetches(): Promise<UrlFetch[]> {
     try {
       return await this.urlFetchRepository.find({
@@ -181,7 +533,9 @@ export class PostgresService {
     const startTime = Date.now();
     
     try {
-      const { page, limit, status, url, startDate, endDate } = options;
+      const {
+        page, limit, status, url, startDate, endDate, changed, finalHost, errorCodes, q, cursor, includeTotal = true, fields, bodyPreview,
+      } = options;
       const offset = (page - 1) * limit;
 
       let whereConditions = [];
@@ -212,40 +566,119 @@ export class PostgresService {
         paramIndex++;
       }
 
+      if (changed !== undefined) {
+        whereConditions.push(`changed IS NOT DISTINCT FROM $${paramIndex}`);
+        queryParams.push(changed);
+        paramIndex++;
+      }
+
+      if (finalHost) {
+        whereConditions.push(`final_host = $${paramIndex}`);
+        queryParams.push(finalHost.toLowerCase());
+        paramIndex++;
+      }
+
+      if (errorCodes?.length) {
+        whereConditions.push(`error_code = ANY($${paramIndex})`);
+        queryParams.push(errorCodes);
+        paramIndex++;
+      }
+
+      // Matches are ranked, and every row gets a snippet with the matching words highlighted
+      let searchColumns = '';
+      let orderBy = 'fetched_at DESC, id DESC';
+      if (q) {
+        const searchQuery = `websearch_to_tsquery('simple', $${paramIndex})`;
+        whereConditions.push(`${BODY_SEARCH_VECTOR} @@ ${searchQuery}`);
+        searchColumns = `,
+          ts_rank(${BODY_SEARCH_VECTOR}, ${searchQuery}) AS search_rank,
+          ts_headline('simple', ${BODY_SEARCH_TEXT}, ${searchQuery}, '${SEARCH_HEADLINE_OPTIONS}') AS search_snippet`;
+        orderBy = 'search_rank DESC, fetched_at DESC';
+        queryParams.push(q);
+        paramIndex++;
+      }
+
       const whereClause = whereConditions.length > 0 
         ? `WHERE ${whereConditions.join(' AND ')}` 
         : '';
 
-      const countQuery = `
-        SELECT COUNT(*) as total 
-        FROM url_fetches 
-        ${whereClause}
-      `;
-      const countResult = await this.dataSource.query(countQuery, queryParams);
-      const totalItems = parseInt(countResult[0].total);
+      let totalItems: number | null = null;
+      if (includeTotal) {
+        const countQuery = `
+          SELECT COUNT(*) as total 
+          FROM url_fetches 
+          ${whereClause}
+        `;
+        const countResult = await this.dataSource.query(countQuery, queryParams);
+        totalItems = parseInt(countResult[0].total);
+      }
+
+      // With a cursor, the page starts right after (or, going back, right before) the cursor's row.
+      // Going back, rows are read oldest first and reversed, so the page ends next to the cursor.
+      const dataConditions = [...whereConditions];
+      const dataParams = [...queryParams];
+      const backwards = cursor?.direction === 'prev';
+      if (cursor) {
+        dataConditions.push(`(fetched_at, id) ${backwards ? '>' : '<'} ($${paramIndex}::timestamptz, $${paramIndex + 1})`);
+        dataParams.push(cursor.fetchedAt, cursor.id);
+        paramIndex += 2;
+        orderBy = backwards ? 'fetched_at ASC, id ASC' : 'fetched_at DESC, id DESC';
+      }
 
+      // Only the requested fields are read, and the id always, since cursors need it
+      const selectedFields = fields ? ['id', ...fields.filter(field => field !== 'id')] : URL_FETCH_FIELDS;
+      const previewBody = bodyPreview !== undefined && selectedFields.includes('response_body');
+      const columns = selectedFields.map(field => field === 'response_body' && previewBody
+        ? `left(response_body, $${paramIndex}) AS response_body`
+        : `"${field}"`);
+      if (previewBody) {
+        dataParams.push(bodyPreview);
+        paramIndex++;
+      }
+
+      // One row more than the page tells whether there is another page after it
       const dataQuery = `
-        SELECT * FROM url_fetches 
-        ${whereClause}
-        ORDER BY fetched_at DESC 
+        SELECT ${columns.join(', ')}, to_char(fetched_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_fetched_at${searchColumns}
+        FROM url_fetches 
+        ${dataConditions.length > 0 ? `WHERE ${dataConditions.join(' AND ')}` : ''}
+        ORDER BY ${orderBy} 
         LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
       `;
-      const dataParams = [...queryParams, limit, offset];
-      const data = await this.dataSource.query(dataQuery, dataParams);
+      const rows = await this.dataSource.query(dataQuery, [...dataParams, limit + 1, cursor ? 0 : offset]);
+      const hasMore = rows.length > limit;
+      const pageRows = rows.slice(0, limit);
+      if (backwards) {
+        pageRows.reverse();
+      }
+
+      // Search results are ordered by rank, which cursors do not cover
+      const first = q ? undefined : pageRows[0];
+      const last = q ? undefined : pageRows[pageRows.length - 1];
+      const hasOlder = backwards || hasMore;
+      const hasNewer = cursor ? !backwards || hasMore : page > 1;
 
-      const totalPages = Math.ceil(totalItems / limit);
+      const data = pageRows.map(({ cursor_fetched_at, ...row }) => row);
+      const totalPages = totalItems !== null ? Math.ceil(totalItems / limit) : null;
 
       const queryTime = Date.now() - startTime;
       this.metricsService.recordDatabaseQuery(queryTime, 'get_url_fetches_pagination');
 
-      this.logger.log(`Retrieved ${data.length} items from page ${page} of ${totalPages} (total: ${totalItems})`);
+      this.logger.log(cursor
+        ? `Retrieved ${data.length} items ${backwards ? 'before' : 'after'} cursor (total: ${totalItems ?? 'not counted'})`
+        : `Retrieved ${data.length} items from page ${page} of ${totalPages ?? 'unknown'} (total: ${totalItems ?? 'not counted'})`);
 
       return {
         data,
-        page,
+        page: cursor ? null : page,
         limit,
         totalPages,
         totalItems,
+        nextCursor: hasOlder && last
+          ? encodeCursor({ fetchedAt: last.cursor_fetched_at, id: last.id, direction: 'next' })
+          : null,
+        prevCursor: hasNewer && first
+          ? encodeCursor({ fetchedAt: first.cursor_fetched_at, id: first.id, direction: 'prev' })
+          : null,
       };
     } catch (error) {
       const queryTime = Date.now() - startTime;
@@ -267,18 +700,759 @@ export class PostgresService {
     }
   }
 
-  async getUrlFetchesByUrl(url: string): Promise<UrlFetch[]> {
+  async getUrlFetchesByUrl(url: string, limit: number = 50): Promise<UrlFetchHistory[]> {
+    const startTime = Date.now();
+
     try {
-      return await this.urlFetchRepository.find({
-        where: { url },
-        order: {
-          fetchedAt: 'DESC',
-        },
-      });
+      const rows = await this.dataSource.query(
+        `
+        SELECT * FROM url_fetch_history
+        WHERE url = $1
+        ORDER BY fetched_at DESC, id DESC
+        LIMIT $2
+        `,
+        [url, limit],
+      );
+
+      const queryTime = Date.now() - startTime;
+      this.metricsService.recordDatabaseQuery(queryTime, 'get_url_fetch_history');
+
+      return rows.map(row => this.mapUrlFetchHistory(row).toJSON() as any);
     } catch (error) {
+      const queryTime = Date.now() - startTime;
+      this.metricsService.recordDatabaseQuery(queryTime, 'get_url_fetch_history');
       this.handleDatabaseError(error, `Failed to retrieve URL fetches for ${url}`);
     }
   }
 
+  async getUrlFetchHistoryEntry(id: number): Promise<UrlFetchHistory | null> {
+    try {
+      const rows = await this.dataSource.query(`SELECT * FROM url_fetch_history WHERE id = $1`, [id]);
+
+      return rows[0] ? this.mapUrlFetchHistory(rows[0]) : null;
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to retrieve URL fetch history entry with id ${id}`);
+    }
+  }
+
+  async getRecentHistoryForUrlFetch(urlFetchId: number, limit: number): Promise<UrlFetchHistory[]> {
+    try {
+      const rows = await this.dataSource.query(
+        `
+        SELECT * FROM url_fetch_history
+        WHERE url_fetch_id = $1
+        ORDER BY fetched_at DESC, id DESC
+        LIMIT $2
+        `,
+        [urlFetchId, limit],
+      );
+
+      return rows.map(row => this.mapUrlFetchHistory(row));
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to retrieve history of URL fetch ${urlFetchId}`);
+    }
+  }
+
+  /**
+   * Copies the stored row into the history table, so the history keeps exactly what was saved.
+   * Returns the id of the new history entry.
+   */
+  private async appendFetchHistory(urlFetchId: number): Promise<number> {
+    const rows = await this.dataSource.query(
+      `
+      INSERT INTO url_fetch_history (url_fetch_id, url, response_status, response_headers, response_body, content_type, content_hash, changed, request_options, body_truncated, body_size_bytes, download_duration_ms, is_binary, attempts, error_code, error_message, not_modified, redirect_chain, final_url, final_host, timings, tls_certificate, tls_error, proxy, credential_id, fetched_at)
+      SELECT id, url, response_status, response_headers, response_body, content_type, content_hash, changed, request_options, body_truncated, body_size_bytes, download_duration_ms, is_binary, attempts, error_code, error_message, not_modified, redirect_chain, final_url, final_host, timings, tls_certificate, tls_error, proxy, credential_id, fetched_at
+      FROM url_fetches
+      WHERE id = $1
+      RETURNING id
+      `,
+      [urlFetchId],
+    );
+
+    return rows[0]?.id;
+  }
+
+  private async saveFetchAttempts(urlFetchId: number, historyId: number, url: string, attempts: FetchAttemptResult[]): Promise<void> {
+    for (const attempt of attempts) {
+      await this.dataSource.query(
+        `
+        INSERT INTO fetch_attempts (url_fetch_id, history_id, url, attempt, response_status, error, error_code, duration_ms, retry_delay_ms, started_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        `,
+        [
+          urlFetchId,
+          historyId,
+          url,
+          attempt.attempt,
+          attempt.responseStatus ?? null,
+          attempt.error ?? null,
+          attempt.errorCode ?? null,
+          attempt.durationMs,
+          attempt.retryDelayMs ?? null,
+          attempt.startedAt,
+        ],
+      );
+    }
+  }
+
+  async getFetchAttempts(urlFetchId: number, limit: number): Promise<FetchAttempt[]> {
+    try {
+      const rows = await this.dataSource.query(
+        `
+        SELECT * FROM fetch_attempts
+        WHERE url_fetch_id = $1
+        ORDER BY started_at DESC, id DESC
+        LIMIT $2
+        `,
+        [urlFetchId, limit],
+      );
+
+      return rows.map(row => this.mapFetchAttempt(row));
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to retrieve attempts of URL fetch ${urlFetchId}`);
+    }
+  }
+
+  async getUrlFetchesByIds(ids: number[]): Promise<UrlFetch[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    try {
+      const results = await this.urlFetchRepository.find({ where: { id: In(ids) } });
+      const resultsById = new Map(results.map(result => [result.id, result]));
+
+      return ids
+        .filter(id => resultsById.has(id))
+        .map(id => resultsById.get(id).toJSON() as any);
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to retrieve URL fetches by ids');
+    }
+  }
+
+  /**
+   * Rejected URLs are stored as finished items and count as failed, so a job's
+   * progress still adds up to its total.
+   */
+  async createFetchJob(requests: UrlFetchRequest[], rejected: RejectedUrl[] = []): Promise<FetchJob> {
+    try {
+      const items: FetchJobItem[] = [
+        ...requests.map(({ url, options }): FetchJobItem =>
+          Object.keys(options).length > 0 ? { url, status: 'pending', options } : { url, status: 'pending' },
+        ),
+        ...rejected.map(({ url, error }): FetchJobItem => ({ url, status: 'rejected', error })),
+      ];
+      const rows = await this.dataSource.query(
+        // The creating instance runs the job, so it holds the claim from the start
+        `INSERT INTO fetch_jobs (items, total_urls, failed_urls, heartbeat_at) VALUES ($1, $2, $3, now()) RETURNING *`,
+        [JSON.stringify(items), items.length, rejected.length],
+      );
+
+      return this.mapFetchJob(rows[0]);
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to create fetch job');
+    }
+  }
 
-} 
\ No newline at end of file
+  async getFetchJobById(id: number): Promise<FetchJob | null> {
+    try {
+      const rows = await this.dataSource.query(`SELECT * FROM fetch_jobs WHERE id = $1`, [id]);
+
+      return rows[0] ? this.mapFetchJob(rows[0]) : null;
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to retrieve fetch job with id ${id}`);
+    }
+  }
+
+  /**
+   * Claims the incomplete jobs whose runner has not sent a heartbeat for
+   * `leaseMs`, because it stopped. The claim is a single statement and skips
+   * rows another instance is claiming, so every job has one runner at a time.
+   */
+  async claimStaleFetchJobs(leaseMs: number): Promise<FetchJob[]> {
+    try {
+      const rows = await this.dataSource.query(
+        `
+        UPDATE fetch_jobs
+        SET status = 'running', started_at = COALESCE(started_at, now()), heartbeat_at = now()
+        WHERE id IN (
+          SELECT id FROM fetch_jobs
+          WHERE status IN ('pending', 'running')
+            AND (heartbeat_at IS NULL OR heartbeat_at < now() - make_interval(secs => $1 / 1000.0))
+          ORDER BY created_at
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+        `,
+        [leaseMs],
+      );
+
+      return rows.map(row => this.mapFetchJob(row));
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to claim incomplete fetch jobs');
+    }
+  }
+
+  async markFetchJobRunning(id: number): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `UPDATE fetch_jobs SET status = 'running', started_at = COALESCE(started_at, now()), heartbeat_at = now() WHERE id = $1`,
+        [id],
+      );
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to start fetch job ${id}`);
+    }
+  }
+
+  async updateFetchJobItem(id: number, index: number, item: FetchJobItem): Promise<void> {
+    try {
+      // Single-statement update so concurrent item updates of the same job cannot overwrite each other
+      await this.dataSource.query(
+        `
+        UPDATE fetch_jobs
+        SET items = jsonb_set(items, ARRAY[$2::text], $3::jsonb),
+            completed_urls = completed_urls + CASE WHEN $4 = 'completed' THEN 1 ELSE 0 END,
+            failed_urls = failed_urls + CASE WHEN $4 = 'failed' THEN 1 ELSE 0 END,
+            heartbeat_at = now()
+        WHERE id = $1
+        `,
+        [id, String(index), JSON.stringify(item), item.status],
+      );
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to update item ${index} of fetch job ${id}`);
+    }
+  }
+
+  /**
+   * Keeps the claim on a running job while its items are still being fetched.
+   */
+  async touchFetchJob(id: number): Promise<void> {
+    try {
+      await this.dataSource.query(`UPDATE fetch_jobs SET heartbeat_at = now() WHERE id = $1 AND status = 'running'`, [id]);
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to update the heartbeat of fetch job ${id}`);
+    }
+  }
+
+  async completeFetchJob(id: number): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `
+        UPDATE fetch_jobs
+        SET status = 'completed',
+            completed_at = now(),
+            duration_ms = (EXTRACT(EPOCH FROM (now() - COALESCE(started_at, created_at))) * 1000)::int
+        WHERE id = $1
+        `,
+        [id],
+      );
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to complete fetch job ${id}`);
+    }
+  }
+
+  async createMonitor(monitor: Partial<Monitor>): Promise<Monitor> {
+    try {
+      const rows = await this.dataSource.query(
+        `
+        INSERT INTO monitors (url, interval_seconds, cron_expression, enabled, next_run_at)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *
+        `,
+        [monitor.url, monitor.intervalSeconds, monitor.cronExpression, monitor.enabled, monitor.nextRunAt],
+      );
+
+      return this.mapMonitor(rows[0]);
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to create monitor');
+    }
+  }
+
+  async getMonitors(): Promise<Monitor[]> {
+    try {
+      const rows = await this.dataSource.query(`SELECT * FROM monitors ORDER BY id`);
+
+      return rows.map(row => this.mapMonitor(row));
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to retrieve monitors');
+    }
+  }
+
+  async getMonitorById(id: number): Promise<Monitor | null> {
+    try {
+      const rows = await this.dataSource.query(`SELECT * FROM monitors WHERE id = $1`, [id]);
+
+      return rows[0] ? this.mapMonitor(rows[0]) : null;
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to retrieve monitor with id ${id}`);
+    }
+  }
+
+  async updateMonitor(id: number, monitor: Partial<Monitor>): Promise<void> {
+    try {
+      const columns: Record<string, unknown> = {
+        url: monitor.url,
+        interval_seconds: monitor.intervalSeconds,
+        cron_expression: monitor.cronExpression,
+        enabled: monitor.enabled,
+        next_run_at: monitor.nextRunAt,
+      };
+
+      const setClauses = ['updated_at = now()'];
+      const queryParams: unknown[] = [id];
+      for (const [column, value] of Object.entries(columns)) {
+        if (value !== undefined) {
+          queryParams.push(value);
+          setClauses.push(`${column} = $${queryParams.length}`);
+        }
+      }
+
+      await this.dataSource.query(`UPDATE monitors SET ${setClauses.join(', ')} WHERE id = $1`, queryParams);
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to update monitor with id ${id}`);
+    }
+  }
+
+  async deleteMonitor(id: number): Promise<void> {
+    try {
+      await this.dataSource.query(`DELETE FROM monitors WHERE id = $1`, [id]);
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to delete monitor with id ${id}`);
+    }
+  }
+
+  async getDueMonitors(limit: number): Promise<Monitor[]> {
+    try {
+      const rows = await this.dataSource.query(
+        `
+        SELECT * FROM monitors
+        WHERE enabled AND next_run_at <= now()
+        ORDER BY next_run_at
+        LIMIT $1
+        `,
+        [limit],
+      );
+
+      return rows.map(row => this.mapMonitor(row));
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to retrieve due monitors');
+    }
+  }
+
+  /**
+   * The latest certificate of every host with an enabled monitor, when it
+   * expires before `expiresBefore`. Hosts whose last fetch was refused for an
+   * expired certificate are included too, as their certificate is not stored.
+   */
+  async getExpiringCertificates(expiresBefore: Date): Promise<Omit<ExpiringCertificate, 'days_remaining'>[]> {
+    try {
+      const rows = await this.dataSource.query(
+        `
+        SELECT *,
+          (tls_certificate->>'validTo')::timestamptz AS expires_at
+        FROM (
+          SELECT DISTINCT ON (host)
+            COALESCE(f.final_host, lower(substring(f.url from '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/:?#]+)'))) AS host,
+            f.url, m.id AS monitor_id, f.tls_certificate, f.tls_error, f.fetched_at
+          FROM monitors m
+          JOIN url_fetches f ON f.url = m.url
+          WHERE m.enabled AND (f.tls_certificate IS NOT NULL OR f.tls_error IS NOT NULL)
+          ORDER BY host, f.fetched_at DESC
+        ) latest
+        WHERE (tls_certificate->>'validTo')::timestamptz <= $1 OR tls_error->>'reason' = 'expired'
+        ORDER BY expires_at NULLS FIRST, host
+        `,
+        [expiresBefore],
+      );
+
+      return rows.map(row => ({
+        host: row.host,
+        url: row.url,
+        monitor_id: row.monitor_id,
+        certificate: row.tls_certificate,
+        tls_error: row.tls_error,
+        expires_at: row.expires_at,
+        fetched_at: row.fetched_at,
+      }));
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to retrieve expiring certificates');
+    }
+  }
+
+  async recordMonitorRun(
+    id: number,
+    run: { ranAt: Date; nextRunAt: Date; status?: number; error?: string; succeeded: boolean },
+  ): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `
+        UPDATE monitors
+        SET last_run_at = $2,
+            next_run_at = $3,
+            last_status = $4,
+            last_error = $5,
+            consecutive_failures = CASE WHEN $6 THEN 0 ELSE consecutive_failures + 1 END
+        WHERE id = $1
+        `,
+        [id, run.ranAt, run.nextRunAt, run.status ?? null, run.error ?? null, run.succeeded],
+      );
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to record run of monitor ${id}`);
+    }
+  }
+
+  async createWebhookSubscription(subscription: Partial<WebhookSubscription>): Promise<WebhookSubscription> {
+    try {
+      const rows = await this.dataSource.query(
+        `
+        INSERT INTO webhook_subscriptions (target_url, events, secret, enabled)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *
+        `,
+        [subscription.targetUrl, JSON.stringify(subscription.events), subscription.secret, subscription.enabled],
+      );
+
+      return this.mapWebhookSubscription(rows[0]);
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to create webhook subscription');
+    }
+  }
+
+  async getWebhookSubscriptions(onlyEnabled: boolean = false): Promise<WebhookSubscription[]> {
+    try {
+      const rows = await this.dataSource.query(
+        `SELECT * FROM webhook_subscriptions ${onlyEnabled ? 'WHERE enabled' : ''} ORDER BY id`,
+      );
+
+      return rows.map(row => this.mapWebhookSubscription(row));
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to retrieve webhook subscriptions');
+    }
+  }
+
+  async getWebhookSubscriptionById(id: number): Promise<WebhookSubscription | null> {
+    try {
+      const rows = await this.dataSource.query(`SELECT * FROM webhook_subscriptions WHERE id = $1`, [id]);
+
+      return rows[0] ? this.mapWebhookSubscription(rows[0]) : null;
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to retrieve webhook subscription with id ${id}`);
+    }
+  }
+
+  async deleteWebhookSubscription(id: number): Promise<void> {
+    try {
+      await this.dataSource.query(`DELETE FROM webhook_subscriptions WHERE id = $1`, [id]);
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to delete webhook subscription with id ${id}`);
+    }
+  }
+
+  async createWebhookDelivery(delivery: Partial<WebhookDelivery>): Promise<WebhookDelivery> {
+    try {
+      const rows = await this.dataSource.query(
+        `
+        INSERT INTO webhook_deliveries (subscription_id, event, payload, attempt, next_attempt_at)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *
+        `,
+        [delivery.subscriptionId, delivery.event, JSON.stringify(delivery.payload), delivery.attempt, delivery.nextAttemptAt],
+      );
+
+      return this.mapWebhookDelivery(rows[0]);
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to create webhook delivery');
+    }
+  }
+
+  async getDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    try {
+      const rows = await this.dataSource.query(
+        `
+        SELECT * FROM webhook_deliveries
+        WHERE status = 'pending' AND next_attempt_at <= now()
+        ORDER BY next_attempt_at
+        LIMIT $1
+        `,
+        [limit],
+      );
+
+      return rows.map(row => this.mapWebhookDelivery(row));
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to retrieve due webhook deliveries');
+    }
+  }
+
+  async completeWebhookDelivery(
+    id: number,
+    result: { status: WebhookDeliveryStatus; responseStatus?: number; error?: string; durationMs: number },
+  ): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `
+        UPDATE webhook_deliveries
+        SET status = $2, response_status = $3, error = $4, duration_ms = $5, delivered_at = now(), next_attempt_at = NULL
+        WHERE id = $1
+        `,
+        [id, result.status, result.responseStatus ?? null, result.error ?? null, result.durationMs],
+      );
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to update webhook delivery ${id}`);
+    }
+  }
+
+  async getWebhookDeliveries(subscriptionId: number, limit: number): Promise<WebhookDelivery[]> {
+    try {
+      const rows = await this.dataSource.query(
+        `
+        SELECT * FROM webhook_deliveries
+        WHERE subscription_id = $1
+        ORDER BY created_at DESC, id DESC
+        LIMIT $2
+        `,
+        [subscriptionId, limit],
+      );
+
+      return rows.map(row => this.mapWebhookDelivery(row));
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to retrieve deliveries of webhook subscription ${subscriptionId}`);
+    }
+  }
+
+  async createCredential(credential: Partial<Credential>): Promise<Credential> {
+    try {
+      const rows = await this.dataSource.query(
+        `
+        INSERT INTO credentials (name, host_pattern, type, username, header_name, encrypted_secret, enabled)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *
+        `,
+        [
+          credential.name,
+          credential.hostPattern,
+          credential.type,
+          credential.username ?? null,
+          credential.headerName ?? null,
+          credential.encryptedSecret,
+          credential.enabled,
+        ],
+      );
+
+      return this.mapCredential(rows[0]);
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to create credential');
+    }
+  }
+
+  async getCredentials(onlyEnabled: boolean = false): Promise<Credential[]> {
+    try {
+      const rows = await this.dataSource.query(
+        `SELECT * FROM credentials ${onlyEnabled ? 'WHERE enabled' : ''} ORDER BY id`,
+      );
+
+      return rows.map(row => this.mapCredential(row));
+    } catch (error) {
+      this.handleDatabaseError(error, 'Failed to retrieve credentials');
+    }
+  }
+
+  async getCredentialById(id: number): Promise<Credential | null> {
+    try {
+      const rows = await this.dataSource.query(`SELECT * FROM credentials WHERE id = $1`, [id]);
+
+      return rows[0] ? this.mapCredential(rows[0]) : null;
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to retrieve credential with id ${id}`);
+    }
+  }
+
+  async updateCredential(id: number, credential: Partial<Credential>): Promise<void> {
+    try {
+      const columns: Record<string, unknown> = {
+        name: credential.name,
+        host_pattern: credential.hostPattern,
+        type: credential.type,
+        username: credential.username,
+        header_name: credential.headerName,
+        encrypted_secret: credential.encryptedSecret,
+        enabled: credential.enabled,
+      };
+
+      const setClauses = ['updated_at = now()'];
+      const queryParams: unknown[] = [id];
+      for (const [column, value] of Object.entries(columns)) {
+        if (value !== undefined) {
+          queryParams.push(value);
+          setClauses.push(`${column} = $${queryParams.length}`);
+        }
+      }
+
+      await this.dataSource.query(`UPDATE credentials SET ${setClauses.join(', ')} WHERE id = $1`, queryParams);
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to update credential with id ${id}`);
+    }
+  }
+
+  async deleteCredential(id: number): Promise<void> {
+    try {
+      await this.dataSource.query(`DELETE FROM credentials WHERE id = $1`, [id]);
+    } catch (error) {
+      this.handleDatabaseError(error, `Failed to delete credential with id ${id}`);
+    }
+  }
+
+  private mapWebhookSubscription(row: Record<string, any>): WebhookSubscription {
+    const subscription = new WebhookSubscription();
+    subscription.id = row.id;
+    subscription.targetUrl = row.target_url;
+    subscription.events = row.events;
+    subscription.secret = row.secret;
+    subscription.enabled = row.enabled;
+    subscription.createdAt = row.created_at;
+    return subscription;
+  }
+
+  private mapWebhookDelivery(row: Record<string, any>): WebhookDelivery {
+    const delivery = new WebhookDelivery();
+    delivery.id = row.id;
+    delivery.subscriptionId = row.subscription_id;
+    delivery.event = row.event;
+    delivery.payload = row.payload;
+    delivery.attempt = row.attempt;
+    delivery.status = row.status;
+    delivery.responseStatus = row.response_status;
+    delivery.error = row.error;
+    delivery.durationMs = row.duration_ms;
+    delivery.nextAttemptAt = row.next_attempt_at;
+    delivery.createdAt = row.created_at;
+    delivery.deliveredAt = row.delivered_at;
+    return delivery;
+  }
+
+  private mapCredential(row: Record<string, any>): Credential {
+    const credential = new Credential();
+    credential.id = row.id;
+    credential.name = row.name;
+    credential.hostPattern = row.host_pattern;
+    credential.type = row.type;
+    credential.username = row.username;
+    credential.headerName = row.header_name;
+    credential.encryptedSecret = row.encrypted_secret;
+    credential.enabled = row.enabled;
+    credential.createdAt = row.created_at;
+    credential.updatedAt = row.updated_at;
+    return credential;
+  }
+
+  private mapMonitor(row: Record<string, any>): Monitor {
+    const monitor = new Monitor();
+    monitor.id = row.id;
+    monitor.url = row.url;
+    monitor.intervalSeconds = row.interval_seconds;
+    monitor.cronExpression = row.cron_expression;
+    monitor.enabled = row.enabled;
+    monitor.lastRunAt = row.last_run_at;
+    monitor.nextRunAt = row.next_run_at;
+    monitor.lastStatus = row.last_status;
+    monitor.lastError = row.last_error;
+    monitor.consecutiveFailures = row.consecutive_failures;
+    monitor.createdAt = row.created_at;
+    monitor.updatedAt = row.updated_at;
+    return monitor;
+  }
+
+  private mapUrlFetch(row: Record<string, any>): UrlFetch {
+    const urlFetch = new UrlFetch();
+    urlFetch.id = row.id;
+    urlFetch.url = row.url;
+    urlFetch.responseStatus = row.response_status;
+    urlFetch.responseHeaders = row.response_headers;
+    urlFetch.responseBody = row.response_body;
+    urlFetch.contentType = row.content_type;
+    urlFetch.contentHash = row.content_hash;
+    urlFetch.changed = row.changed;
+    urlFetch.requestOptions = row.request_options;
+    urlFetch.bodyTruncated = row.body_truncated;
+    urlFetch.bodySizeBytes = row.body_size_bytes;
+    urlFetch.downloadDurationMs = row.download_duration_ms;
+    urlFetch.isBinary = row.is_binary;
+    urlFetch.attempts = row.attempts;
+    urlFetch.errorCode = row.error_code;
+    urlFetch.errorMessage = row.error_message;
+    urlFetch.notModified = row.not_modified;
+    urlFetch.redirectChain = row.redirect_chain;
+    urlFetch.finalUrl = row.final_url;
+    urlFetch.finalHost = row.final_host;
+    urlFetch.timings = row.timings;
+    urlFetch.tlsCertificate = row.tls_certificate;
+    urlFetch.tlsError = row.tls_error;
+    urlFetch.proxy = row.proxy;
+    urlFetch.credentialId = row.credential_id;
+    urlFetch.fetchedAt = row.fetched_at;
+    return urlFetch;
+  }
+
+  private mapUrlFetchHistory(row: Record<string, any>): UrlFetchHistory {
+    const history = new UrlFetchHistory();
+    history.id = row.id;
+    history.urlFetchId = row.url_fetch_id;
+    history.url = row.url;
+    history.responseStatus = row.response_status;
+    history.responseHeaders = row.response_headers;
+    history.responseBody = row.response_body;
+    history.contentType = row.content_type;
+    history.contentHash = row.content_hash;
+    history.changed = row.changed;
+    history.requestOptions = row.request_options;
+    history.bodyTruncated = row.body_truncated;
+    history.bodySizeBytes = row.body_size_bytes;
+    history.downloadDurationMs = row.download_duration_ms;
+    history.isBinary = row.is_binary;
+    history.attempts = row.attempts;
+    history.errorCode = row.error_code;
+    history.errorMessage = row.error_message;
+    history.notModified = row.not_modified;
+    history.redirectChain = row.redirect_chain;
+    history.finalUrl = row.final_url;
+    history.finalHost = row.final_host;
+    history.timings = row.timings;
+    history.tlsCertificate = row.tls_certificate;
+    history.tlsError = row.tls_error;
+    history.proxy = row.proxy;
+    history.credentialId = row.credential_id;
+    history.fetchedAt = row.fetched_at;
+    return history;
+  }
+
+  private mapFetchAttempt(row: Record<string, any>): FetchAttempt {
+    const attempt = new FetchAttempt();
+    attempt.id = row.id;
+    attempt.urlFetchId = row.url_fetch_id;
+    attempt.historyId = row.history_id;
+    attempt.url = row.url;
+    attempt.attempt = row.attempt;
+    attempt.responseStatus = row.response_status;
+    attempt.error = row.error;
+    attempt.errorCode = row.error_code;
+    attempt.durationMs = row.duration_ms;
+    attempt.retryDelayMs = row.retry_delay_ms;
+    attempt.startedAt = row.started_at;
+    return attempt;
+  }
+
+  private mapFetchJob(row: Record<string, any>): FetchJob {
+    const job = new FetchJob();
+    job.id = row.id;
+    job.status = row.status;
+    job.items = row.items;
+    job.totalUrls = row.total_urls;
+    job.completedUrls = row.completed_urls;
+    job.failedUrls = row.failed_urls;
+    job.createdAt = row.created_at;
+    job.startedAt = row.started_at;
+    job.completedAt = row.completed_at;
+    job.durationMs = row.duration_ms;
+    job.heartbeatAt = row.heartbeat_at;
+    return job;
+  }
+}
@@ -0,0 +1,34 @@
+import { BlockList, isIP } from 'net';
+
+/**
+ * Compiles a hostname pattern, as used by the security policy, proxy rules
+ * and credentials: an exact hostname, or a wildcard pattern where `*` matches
+ * any characters. Matching ignores case.
+ */
+export function compileHostPattern(pattern: string): RegExp {
+  const source = pattern
+    .toLowerCase()
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compiles an IPv4 or IPv6 range such as `10.0.0.0/8`, or a single address,
+ * into a BlockList. Returns null when `cidr` is neither.
+ */
+export function compileCidr(cidr: string): BlockList | null {
+  const [network, prefix] = cidr.split('/');
+  const family = isIP(network);
+  const maxPrefixLength = family === 6 ? 128 : 32;
+  const prefixLength = prefix === undefined ? maxPrefixLength : /^\d+$/.test(prefix) ? Number(prefix) : NaN;
+  if (!family || !(prefixLength >= 0 && prefixLength <= maxPrefixLength)) {
+    return null;
+  }
+
+  const addresses = new BlockList();
+  addresses.addSubnet(network, prefixLength, family === 6 ? 'ipv6' : 'ipv4');
+  return addresses;
+}
@@ -0,0 +1,244 @@
+import { readFileSync } from 'fs';
+import { BlockList, isIP } from 'net';
+import { parse as parseYaml } from 'yaml';
+import { compileCidr, compileHostPattern } from './host-matching';
+
+export type PolicyAction = 'allow' | 'deny';
+
+/**
+ * A single allow or deny rule. `host` is an exact hostname or a wildcard
+ * pattern where `*` matches any characters (`*.example.com`, `metadata.*`).
+ * `cidr` is an IPv4 or IPv6 range or a single address. A rule with `ports`
+ * only applies to those ports.
+ */
+export interface PolicyRule {
+  host?: string;
+  cidr?: string;
+  ports?: number[];
+  reason?: string;
+}
+
+export interface SecurityPolicyConfig {
+  protocols?: string[];
+  ports?: number[];
+  defaultAction?: PolicyAction;
+  includeDefaultRules?: boolean;
+  allow?: PolicyRule[];
+  deny?: PolicyRule[];
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+  rule?: PolicyRule;
+}
+
+interface CompiledRule {
+  rule: PolicyRule;
+  hostPattern?: RegExp;
+  addresses?: BlockList;
+}
+
+export const DEFAULT_POLICY_RULES: Required<Pick<SecurityPolicyConfig, 'protocols' | 'deny'>> = {
+  protocols: ['http:', 'https:'],
+  deny: [
+    // Blocked hostnames
+    { host: 'localhost' },
+    { host: '127.0.0.1' },
+    { host: '0.0.0.0' },
+    { host: 'metadata.google.internal' },
+    { host: '169.254.169.254' },
+    { host: '169.254.170.2' },
+    // Private, loopback, link-local, CGNAT, ULA and other special-purpose ranges.
+    // IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are matched against the IPv4 ranges.
+    // IPv4-compatible (::/96), IPv4-translated (::ffff:0:0:0/96) and 6to4 (2002::/16)
+    // addresses can embed any IPv4 address, private ones included, so they are
+    // denied as a whole.
+    ...[
+      '0.0.0.0/8',
+      '10.0.0.0/8',
+      '172.16.0.0/12',
+      '192.168.0.0/16',
+      '100.64.0.0/10',
+      '127.0.0.0/8',
+      '169.254.0.0/16',
+      '192.0.0.0/24',
+      '198.18.0.0/15',
+      '224.0.0.0/4',
+      '240.0.0.0/4',
+      '::/128',
+      '::1/128',
+      '::/96',
+      '::ffff:0:0:0/96',
+      '64:ff9b::/96',
+      '2002::/16',
+      'fc00::/7',
+      'fe80::/10',
+      'fec0::/10',
+      'ff00::/8',
+    ].map(cidr => ({ cidr, reason: 'Private/internal IP addresses are not allowed.' })),
+    // Cloud metadata servers
+    { host: 'metadata.*', reason: 'Cloud metadata servers are not allowed.' },
+    // Internal DNS names and mDNS
+    ...['*.internal', '*.local'].map(host => ({ host, reason: 'Internal and local network hostnames are not allowed.' })),
+  ],
+};
+
+/**
+ * Compiled allow/deny policy for fetch targets.
+ *
+ * Hostnames are checked in this order: protocol, port, allow rules, deny
+ * rules, then `defaultAction`. A matching allow rule therefore overrides deny
+ * rules, which is how a deployment opens up a single internal host.
+ * Resolved addresses are only checked against `cidr` rules and are allowed
+ * unless a deny rule matches, so an allowlist of domains does not need to
+ * list their addresses as well.
+ */
+export class SecurityPolicy {
+  readonly protocols: string[];
+  readonly ports: number[] | null;
+  readonly defaultAction: PolicyAction;
+  private readonly allowRules: CompiledRule[];
+  private readonly denyRules: CompiledRule[];
+
+  constructor(config: SecurityPolicyConfig = {}) {
+    const includeDefaultRules = config.includeDefaultRules ?? true;
+
+    this.protocols = (config.protocols || DEFAULT_POLICY_RULES.protocols).map(protocol =>
+      protocol.endsWith(':') ? protocol.toLowerCase() : `${protocol.toLowerCase()}:`,
+    );
+    this.ports = config.ports && config.ports.length > 0 ? config.ports : null;
+    this.defaultAction = config.defaultAction || 'allow';
+    this.allowRules = (config.allow || []).map(rule => this.compileRule(rule));
+    this.denyRules = [...(includeDefaultRules ? DEFAULT_POLICY_RULES.deny : []), ...(config.deny || [])]
+      .map(rule => this.compileRule(rule));
+  }
+
+  isProtocolAllowed(protocol: string): boolean {
+    return this.protocols.includes(protocol);
+  }
+
+  isPortAllowed(port: number): boolean {
+    return this.ports === null || this.ports.includes(port);
+  }
+
+  /**
+   * Decides on a hostname, which may be an IP literal, at a given port.
+   */
+  checkHost(hostname: string, port: number): PolicyDecision {
+    const allowRule = this.allowRules.find(compiled => this.matchesHost(compiled, hostname, port));
+    if (allowRule) {
+      return { allowed: true, reason: allowRule.rule.reason, rule: allowRule.rule };
+    }
+
+    const denyRule = this.denyRules.find(compiled => this.matchesHost(compiled, hostname, port));
+    if (denyRule) {
+      return { allowed: false, reason: denyRule.rule.reason, rule: denyRule.rule };
+    }
+
+    return { allowed: this.defaultAction === 'allow' };
+  }
+
+  /**
+   * Decides on an address the hostname resolved to.
+   */
+  checkAddress(address: string, port: number): PolicyDecision {
+    const allowRule = this.allowRules.find(compiled => this.matchesAddress(compiled, address, port));
+    if (allowRule) {
+      return { allowed: true, reason: allowRule.rule.reason, rule: allowRule.rule };
+    }
+
+    const denyRule = this.denyRules.find(compiled => this.matchesAddress(compiled, address, port));
+    if (denyRule) {
+      return { allowed: false, reason: denyRule.rule.reason, rule: denyRule.rule };
+    }
+
+    return { allowed: true };
+  }
+
+  toJSON() {
+    return {
+      protocols: this.protocols,
+      ports: this.ports,
+      default_action: this.defaultAction,
+      allow: this.allowRules.map(compiled => compiled.rule),
+      deny: this.denyRules.map(compiled => compiled.rule),
+    };
+  }
+
+  private matchesHost(compiled: CompiledRule, hostname: string, port: number): boolean {
+    if (!this.matchesPort(compiled, port)) {
+      return false;
+    }
+
+    if (compiled.hostPattern && compiled.hostPattern.test(hostname)) {
+      return true;
+    }
+
+    return this.matchesAddress(compiled, hostname, port);
+  }
+
+  private matchesAddress(compiled: CompiledRule, address: string, port: number): boolean {
+    const family = isIP(address);
+    if (!compiled.addresses || !family || !this.matchesPort(compiled, port)) {
+      return false;
+    }
+
+    return compiled.addresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  }
+
+  private matchesPort(compiled: CompiledRule, port: number): boolean {
+    return !compiled.rule.ports || compiled.rule.ports.length === 0 || compiled.rule.ports.includes(port);
+  }
+
+  private compileRule(rule: PolicyRule): CompiledRule {
+    if (!rule || (!rule.host && !rule.cidr)) {
+      throw new Error(`Invalid security policy rule ${JSON.stringify(rule)}: a rule needs a host or a cidr`);
+    }
+
+    const compiled: CompiledRule = { rule };
+
+    if (rule.host) {
+      compiled.hostPattern = compileHostPattern(rule.host);
+    }
+
+    if (rule.cidr) {
+      compiled.addresses = compileCidr(rule.cidr);
+      if (!compiled.addresses) {
+        throw new Error(`Invalid security policy rule: '${rule.cidr}' is not a valid CIDR range`);
+      }
+    }
+
+    return compiled;
+  }
+}
+
+/**
+ * Loads the policy from SECURITY_POLICY_FILE (a YAML or JSON file) or
+ * SECURITY_POLICY (inline YAML or JSON). Without either, the default rules apply.
+ */
+export function loadSecurityPolicy(env: NodeJS.ProcessEnv = process.env): SecurityPolicy {
+  let source: string | undefined;
+  let origin = 'SECURITY_POLICY';
+
+  if (env.SECURITY_POLICY_FILE) {
+    origin = env.SECURITY_POLICY_FILE;
+    source = readFileSync(env.SECURITY_POLICY_FILE, 'utf8');
+  } else if (env.SECURITY_POLICY) {
+    source = env.SECURITY_POLICY;
+  }
+
+  if (source === undefined) {
+    return new SecurityPolicy();
+  }
+
+  let config: SecurityPolicyConfig;
+  try {
+    // YAML is a superset of JSON, so one parser handles both formats
+    config = parseYaml(source) || {};
+  } catch (error) {
+    throw new Error(`Failed to parse security policy from ${origin}: ${error.message}`);
+  }
+
+  return new SecurityPolicy(config);
+}
@@ -1,4 +1,9 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, Inject, Optional } from '@nestjs/common';
+import { isIP } from 'net';
+import { promises as dnsPromises, LookupAddress } from 'dns';
+import { SecurityPolicy, loadSecurityPolicy } from './security-policy';
+
+export const SECURITY_POLICY = 'SECURITY_POLICY';
 
 export interface UrlValidationResult {
   isValid: boolean;
@@ -6,47 +11,41 @@ export interface UrlValidationResult {
   sanitizedUrl?: string;
 }
 
+export interface ResolvedUrlValidationResult extends UrlValidationResult {
+  // The checked address the connection must be pinned to
+  address?: string;
+  family?: 4 | 6;
+  // Set when the hostname did not resolve, as opposed to being blocked
+  unresolved?: boolean;
+  // The resolver's error code, such as ENOTFOUND or the temporary EAI_AGAIN
+  dnsErrorCode?: string;
+}
+
 @Injectable()
 export class SecurityService {
   private readonly logger = new Logger(SecurityService.name);
 
-  // Private/internal IP ranges and cloud metadata servers
-  private readonly BLOCKED_IP_RANGES = [
-    // Private IP ranges
-    /^10\./,
-    /^172\.(1[6-9]|2[0-9]|3[0-1])\./,
-    /^192\.168\./,
-    // Link-local addresses
-    /^169\.254\./,
-    // Loopback
-    /^127\./,
-    // Cloud metadata servers
-    /^169\.254\.169\.254$/,
-    /^169\.254\.170\.2$/,
-    // AWS metadata
-    /^169\.254\.169\.254$/,
-    // Google Cloud metadata
-    /^169\.254\.169\.254$/,
-    // Azure metadata
-    /^169\.254\.169\.254$/,
-  ];
+  // Suspicious characters in hostnames
+  private readonly SUSPICIOUS_CHARS = /[%@\\]/;
 
-  // Blocked hostnames
-  private readonly BLOCKED_HOSTNAMES = [
-    'localhost',
-    '127.0.0.1',
-    '::1',
-    '0.0.0.0',
-    'metadata.google.internal',
-    '169.254.169.254',
-    '169.254.170.2',
+  // Request headers whose values are redacted before storage
+  private readonly SENSITIVE_HEADERS = [
+    'authorization',
+    'proxy-authorization',
+    'cookie',
   ];
+  private readonly SENSITIVE_HEADER_PATTERN = /token|secret|password|api[-_]?key|auth/;
 
-  // Suspicious characters in hostnames
-  private readonly SUSPICIOUS_CHARS = /[%@\\]/;
+  // Protocols, ports, hostnames and IP ranges that may be fetched
+  private readonly policy: SecurityPolicy;
+
+  constructor(@Optional() @Inject(SECURITY_POLICY) policy?: SecurityPolicy) {
+    this.policy = policy ?? loadSecurityPolicy();
+  }
 
-  // Allowed protocols
-  private readonly ALLOWED_PROTOCOLS = ['http:', 'https:'];
+  getPolicy(): SecurityPolicy {
+    return this.policy;
+  }
 
   /**
    * Validates and sanitizes a URL according to security rules
@@ -64,30 +63,26 @@ export class SecurityService {
       const parsedUrl = new URL(url);
       
       // 1. Check allowed protocols
-      if (!this.ALLOWED_PROTOCOLS.includes(parsedUrl.protocol)) {
-        const error = `Protocol '${parsedUrl.protocol}' is not allowed. Only http:// and https:// are permitted.`;
-        this.logger.warn(`URL validation failed: ${error} - URL: ${url}`);
-        return { isValid: false, error };
-      }
-
-      // 2. Check for blocked hostnames
-      const hostname = parsedUrl.hostname.toLowerCase();
-      if (this.BLOCKED_HOSTNAMES.includes(hostname)) {
-        const error = `Hostname '${hostname}' is not allowed.`;
+      if (!this.policy.isProtocolAllowed(parsedUrl.protocol)) {
+        const allowed = this.policy.protocols.map(protocol => `${protocol}//`).join(' and ');
+        const error = `Protocol '${parsedUrl.protocol}' is not allowed. Only ${allowed} are permitted.`;
         this.logger.warn(`URL validation failed: ${error} - URL: ${url}`);
         return { isValid: false, error };
       }
 
-      // 3. Check for private/internal IP ranges
-      if (this.isPrivateIp(hostname)) {
-        const error = `Private/internal IP addresses are not allowed.`;
+      // 2. Check allowed ports
+      const port = this.getPort(parsedUrl);
+      if (!this.policy.isPortAllowed(port)) {
+        const error = `Port ${port} is not allowed.`;
         this.logger.warn(`URL validation failed: ${error} - URL: ${url}`);
         return { isValid: false, error };
       }
 
-      // 4. Check for cloud metadata servers
-      if (this.isCloudMetadataServer(hostname)) {
-        const error = `Cloud metadata servers are not allowed.`;
+      // 3. Check hostname and IP literal rules (blocked hostnames, private ranges, metadata servers)
+      const hostname = this.stripBrackets(parsedUrl.hostname.toLowerCase());
+      const decision = this.policy.checkHost(hostname, port);
+      if (!decision.allowed) {
+        const error = decision.reason || `Hostname '${hostname}' is not allowed.`;
         this.logger.warn(`URL validation failed: ${error} - URL: ${url}`);
         return { isValid: false, error };
       }
@@ -105,6 +100,51 @@ export class SecurityService {
     }
   }
 
+  /**
+   * Validates a URL and resolves its hostname. Every resolved address must be
+   * public; the first one is returned so the connection can be pinned to the
+   * address that was checked and a second DNS answer cannot be swapped in.
+   */
+  async resolveUrl(url: string): Promise<ResolvedUrlValidationResult> {
+    const validation = this.validateUrl(url);
+    if (!validation.isValid) {
+      return validation;
+    }
+
+    const parsedUrl = new URL(validation.sanitizedUrl);
+    const hostname = this.stripBrackets(parsedUrl.hostname);
+    const port = this.getPort(parsedUrl);
+    const literalFamily = isIP(hostname);
+    if (literalFamily) {
+      return { ...validation, address: hostname, family: literalFamily as 4 | 6 };
+    }
+
+    let addresses: LookupAddress[];
+    try {
+      addresses = await dnsPromises.lookup(hostname, { all: true, verbatim: true });
+    } catch (error) {
+      const errorMessage = `Could not resolve hostname '${hostname}': ${error.code || error.message}`;
+      this.logger.warn(`URL validation failed: ${errorMessage} - URL: ${url}`);
+      return { isValid: false, error: errorMessage, unresolved: true, dnsErrorCode: error.code };
+    }
+
+    for (const { address } of addresses) {
+      const decision = this.policy.checkAddress(address, port);
+      if (!decision.allowed) {
+        const error = `Hostname '${hostname}' resolves to a blocked IP address (${address})` +
+          (decision.reason ? `: ${decision.reason}` : '.');
+        this.logger.warn(`URL validation failed: ${error} - URL: ${url}`);
+        return { isValid: false, error };
+      }
+    }
+
+    if (addresses.length === 0) {
+      return { isValid: false, error: `Could not resolve hostname '${hostname}': no addresses found`, unresolved: true };
+    }
+
+    return { ...validation, address: addresses[0].address, family: addresses[0].family as 4 | 6 };
+  }
+
   /**
    * Validates multiple URLs and returns results
    */
@@ -144,6 +184,33 @@ export class SecurityService {
     return data;
   }
 
+  /**
+   * Sanitizes a text response body before storing it. Control characters are
+   * removed like in sanitizeData, but line breaks and indentation are kept, so
+   * stored bodies can still be diffed line by line.
+   */
+  sanitizeBody(body: string): string {
+    if (typeof body !== 'string') {
+      return body;
+    }
+
+    return this.stripControlCharacters(body);
+  }
+
+  /**
+   * Replaces the values of credential-bearing headers so they are never stored
+   */
+  redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const redacted: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers || {})) {
+      const lowerName = name.toLowerCase();
+      const isSensitive = this.SENSITIVE_HEADERS.includes(lowerName) ||
+        this.SENSITIVE_HEADER_PATTERN.test(lowerName);
+      redacted[name] = isSensitive ? '[REDACTED]' : value;
+    }
+    return redacted;
+  }
+
   /**
    * Sanitizes a string to prevent injection attacks
    */
@@ -152,11 +219,7 @@ export class SecurityService {
       return str;
     }
 
-    // Remove null bytes
-    str = str.replace(/\0/g, '');
-    
-    // Remove control characters except newlines and tabs
-    str = str.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+    str = this.stripControlCharacters(str);
     
     // Normalize whitespace
     str = str.replace(/\s+/g, ' ').trim();
@@ -164,6 +227,13 @@ export class SecurityService {
     return str;
   }
 
+  /**
+   * Removes null bytes and control characters, except newlines, carriage returns and tabs
+   */
+  private stripControlCharacters(str: string): string {
+    return str.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+  }
+
   /**
    * Sanitizes URL by removing potentially dangerous parts
    */
@@ -182,31 +252,20 @@ export class SecurityService {
   }
 
   /**
-   * Checks if hostname is a private IP address
+   * Explicit port, or the default port of the protocol
    */
-  private isPrivateIp(hostname: string): boolean {
-    // Check if it's an IP address
-    const ipRegex = /^(\d{1,3}\.){3}\d{1,3}$/;
-    if (!ipRegex.test(hostname)) {
-      return false;
+  private getPort(parsedUrl: URL): number {
+    if (parsedUrl.port) {
+      return parseInt(parsedUrl.port);
     }
 
-    // Check against blocked IP ranges
-    return this.BLOCKED_IP_RANGES.some(range => range.test(hostname));
+    return parsedUrl.protocol === 'https:' ? 443 : 80;
   }
 
   /**
-   * Checks if hostname is a cloud metadata server
+   * URL hostnames keep IPv6 literals in brackets
    */
-  private isCloudMetadataServer(hostname: string): boolean {
-    const metadataPatterns = [
-      /^metadata\./,
-      /^169\.254\.169\.254$/,
-      /^169\.254\.170\.2$/,
-      /\.internal$/,
-      /\.local$/,
-    ];
-
-    return metadataPatterns.some(pattern => pattern.test(hostname));
+  private stripBrackets(hostname: string): string {
+    return hostname.replace(/^\[(.*)\]$/, '$1');
   }
-} 
\ No newline at end of file
+}
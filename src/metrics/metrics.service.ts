@@ -1,5 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import * as promClient from 'prom-client';
+import { FetchErrorCode } from '../integrations/http/fetch-error';
+import { FetchTimings, TimingPhase } from '../integrations/http/request-timings';
 
 
 
@@ -12,6 +14,11 @@ export class MetricsService {
   private readonly httpRequestTotal: promClient.Counter;
   private readonly dbQueryDuration: promClient.Histogram;
   private readonly dbQueryTotal: promClient.Counter;
+  private readonly fetchQueueDepth: promClient.Gauge;
+  private readonly fetchQueueWait: promClient.Histogram;
+  private readonly fetchCacheRequests: promClient.Counter;
+  private readonly httpRequestPhaseDuration: promClient.Histogram;
+  private readonly fetchErrors: promClient.Counter;
 
   // Custom metrics for min/max tracking
   private httpMinResponseTime = Infinity;
@@ -36,7 +43,7 @@ export class MetricsService {
       this.httpRequestTotal = new promClient.Counter({
         name: 'http_requests_total',
         help: 'Total number of HTTP requests',
-        labelNames: ['method', 'url', 'status'],
+        labelNames: ['method', 'url', 'status', 'retry'],
       });
     } catch (error) {
       this.httpRequestTotal = promClient.register.getSingleMetric('http_requests_total') as promClient.Counter;
@@ -62,13 +69,63 @@ export class MetricsService {
     } catch (error) {
       this.dbQueryTotal = promClient.register.getSingleMetric('database_queries_total') as promClient.Counter;
     }
+
+    try {
+      this.fetchQueueDepth = new promClient.Gauge({
+        name: 'fetch_queue_depth',
+        help: 'Number of fetches waiting for a free host slot',
+      });
+    } catch (error) {
+      this.fetchQueueDepth = promClient.register.getSingleMetric('fetch_queue_depth') as promClient.Gauge;
+    }
+
+    try {
+      this.fetchQueueWait = new promClient.Histogram({
+        name: 'fetch_queue_wait_seconds',
+        help: 'Time fetches spent waiting in the host scheduler queue in seconds',
+        buckets: [0.01, 0.1, 0.5, 1, 5, 10, 30, 60],
+      });
+    } catch (error) {
+      this.fetchQueueWait = promClient.register.getSingleMetric('fetch_queue_wait_seconds') as promClient.Histogram;
+    }
+
+    try {
+      this.fetchCacheRequests = new promClient.Counter({
+        name: 'fetch_cache_requests_total',
+        help: 'Fetch cache lookups by result (hit or miss)',
+        labelNames: ['result'],
+      });
+    } catch (error) {
+      this.fetchCacheRequests = promClient.register.getSingleMetric('fetch_cache_requests_total') as promClient.Counter;
+    }
+
+    try {
+      this.httpRequestPhaseDuration = new promClient.Histogram({
+        name: 'http_request_phase_duration_seconds',
+        help: 'Duration of each phase of outbound fetches (dns, connect, tls, ttfb, download) in seconds',
+        labelNames: ['phase'],
+        buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+      });
+    } catch (error) {
+      this.httpRequestPhaseDuration = promClient.register.getSingleMetric('http_request_phase_duration_seconds') as promClient.Histogram;
+    }
+
+    try {
+      this.fetchErrors = new promClient.Counter({
+        name: 'fetch_errors_total',
+        help: 'Failed fetch attempts by error class (dns_failure, timeout, tls_error, ...)',
+        labelNames: ['error_code'],
+      });
+    } catch (error) {
+      this.fetchErrors = promClient.register.getSingleMetric('fetch_errors_total') as promClient.Counter;
+    }
   }
 
-  recordHttpRequest(responseTime: number, status: number): void {
+  recordHttpRequest(responseTime: number, method: string, status: number, retry = false): void {
     const durationSeconds = responseTime / 1000;
     
-    this.httpRequestDuration.observe({ method: 'GET', status }, durationSeconds);
-    this.httpRequestTotal.inc({ method: 'GET', status });
+    this.httpRequestDuration.observe({ method, status }, durationSeconds);
+    this.httpRequestTotal.inc({ method, status, retry: String(retry) });
 
     this.httpMinResponseTime = Math.min(this.httpMinResponseTime, responseTime);
     this.httpMaxResponseTime = Math.max(this.httpMaxResponseTime, responseTime);    
@@ -88,6 +145,39 @@ export class MetricsService {
     this.logger.debug(`Database query recorded: ${queryTime}ms for operation: ${operation}`);
   }
 
+  setFetchQueueDepth(depth: number): void {
+    this.fetchQueueDepth.set(depth);
+  }
+
+  recordFetchQueueWait(waitTime: number): void {
+    this.fetchQueueWait.observe(waitTime / 1000);
+  }
+
+  recordFetchCacheLookup(hit: boolean): void {
+    this.fetchCacheRequests.inc({ result: hit ? 'hit' : 'miss' });
+  }
+
+  recordRequestTimings(timings: FetchTimings): void {
+    const phases: Record<TimingPhase, number | null> = {
+      dns: timings.dnsMs,
+      connect: timings.connectMs,
+      tls: timings.tlsMs,
+      ttfb: timings.ttfbMs,
+      download: timings.downloadMs,
+    };
+
+    for (const [phase, durationMs] of Object.entries(phases)) {
+      // Phases that did not happen are left out rather than counted as zero
+      if (durationMs !== null) {
+        this.httpRequestPhaseDuration.observe({ phase }, durationMs / 1000);
+      }
+    }
+  }
+
+  recordFetchError(errorCode: FetchErrorCode): void {
+    this.fetchErrors.inc({ error_code: errorCode });
+  }
+
   async getMetrics(): Promise<string> {
     return await promClient.register.metrics();
   }
@@ -0,0 +1,21 @@
+import { IsString, IsInt, IsBoolean, IsOptional, Min, MaxLength } from 'class-validator';
+
+export class UpdateMonitorDto {
+  @IsOptional()
+  @IsString({ message: 'url must be a string' })
+  url?: string;
+
+  @IsOptional()
+  @IsInt({ message: 'intervalSeconds must be an integer' })
+  @Min(10, { message: 'intervalSeconds must be at least 10 seconds' })
+  intervalSeconds?: number;
+
+  @IsOptional()
+  @IsString({ message: 'cronExpression must be a string' })
+  @MaxLength(100)
+  cronExpression?: string;
+
+  @IsOptional()
+  @IsBoolean({ message: 'enabled must be a boolean' })
+  enabled?: boolean;
+}
@@ -0,0 +1,58 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+@Entity('monitors')
+@Index('idx_monitors_next_run_at', ['nextRunAt'])
+export class Monitor {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ type: 'text' })
+  url: string;
+
+  @Column({ name: 'interval_seconds', type: 'int', nullable: true })
+  intervalSeconds: number;
+
+  @Column({ name: 'cron_expression', type: 'text', nullable: true })
+  cronExpression: string;
+
+  @Column({ type: 'boolean', default: true })
+  enabled: boolean;
+
+  @Column({ name: 'last_run_at', type: 'timestamptz', nullable: true })
+  lastRunAt: Date;
+
+  @Column({ name: 'next_run_at', type: 'timestamptz', nullable: true })
+  nextRunAt: Date;
+
+  @Column({ name: 'last_status', type: 'int', nullable: true })
+  lastStatus: number;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string;
+
+  @Column({ name: 'consecutive_failures', type: 'int', default: 0 })
+  consecutiveFailures: number;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+
+  toJSON() {
+    return {
+      id: this.id,
+      url: this.url,
+      interval_seconds: this.intervalSeconds,
+      cron_expression: this.cronExpression,
+      enabled: this.enabled,
+      last_run_at: this.lastRunAt,
+      next_run_at: this.nextRunAt,
+      last_status: this.lastStatus,
+      last_error: this.lastError,
+      consecutive_failures: this.consecutiveFailures,
+      created_at: this.createdAt,
+      updated_at: this.updatedAt,
+    };
+  }
+}
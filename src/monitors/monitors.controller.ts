@@ -0,0 +1,115 @@
+import { Controller, Post, Get, Patch, Delete, Body, HttpStatus, HttpCode, Param, Query, BadRequestException } from '@nestjs/common';
+import { ExpiringCertificate, MonitorsService } from './monitors.service';
+import { CreateMonitorDto } from './dto/create-monitor.dto';
+import { UpdateMonitorDto } from './dto/update-monitor.dto';
+import { Monitor } from './entities/monitor.entity';
+
+const DEFAULT_EXPIRY_DAYS = 30;
+const MAX_EXPIRY_DAYS = 365;
+
+@Controller('monitors')
+export class MonitorsController {
+  constructor(private readonly monitorsService: MonitorsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createMonitor(@Body() createMonitorDto: CreateMonitorDto): Promise<{
+    message: string;
+    data: Monitor;
+  }> {
+    const monitor = await this.monitorsService.createMonitor(createMonitorDto);
+
+    return {
+      message: 'Monitor created',
+      data: monitor,
+    };
+  }
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getMonitors(): Promise<{
+    message: string;
+    data: Monitor[];
+    count: number;
+  }> {
+    const monitors = await this.monitorsService.getMonitors();
+
+    return {
+      message: 'Successfully retrieved monitors',
+      data: monitors,
+      count: monitors.length,
+    };
+  }
+
+  /**
+   * Monitored hosts whose TLS certificate expires within `days` (default 30),
+   * including hosts whose certificate has already expired.
+   */
+  @Get('certificates')
+  @HttpCode(HttpStatus.OK)
+  async getExpiringCertificates(@Query('days') days?: string): Promise<{
+    message: string;
+    data: ExpiringCertificate[];
+    count: number;
+  }> {
+    const withinDays = days === undefined ? DEFAULT_EXPIRY_DAYS : Number(days);
+    if (!Number.isInteger(withinDays) || withinDays < 0 || withinDays > MAX_EXPIRY_DAYS) {
+      throw new BadRequestException(`days must be an integer between 0 and ${MAX_EXPIRY_DAYS}`);
+    }
+
+    const certificates = await this.monitorsService.getExpiringCertificates(withinDays);
+
+    return {
+      message: `Found ${certificates.length} monitored ${certificates.length === 1 ? 'host' : 'hosts'} with a certificate expiring within ${withinDays} days`,
+      data: certificates,
+      count: certificates.length,
+    };
+  }
+
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getMonitorById(@Param('id') id: string): Promise<{
+    message: string;
+    data: Monitor | null;
+  }> {
+    const monitor = await this.monitorsService.getMonitorById(this.parseId(id));
+
+    return {
+      message: monitor ? 'Monitor found' : 'Monitor not found',
+      data: monitor,
+    };
+  }
+
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  async updateMonitor(@Param('id') id: string, @Body() updateMonitorDto: UpdateMonitorDto): Promise<{
+    message: string;
+    data: Monitor;
+  }> {
+    const monitor = await this.monitorsService.updateMonitor(this.parseId(id), updateMonitorDto);
+
+    return {
+      message: 'Monitor updated',
+      data: monitor,
+    };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async deleteMonitor(@Param('id') id: string): Promise<{ message: string }> {
+    await this.monitorsService.deleteMonitor(this.parseId(id));
+
+    return {
+      message: 'Monitor deleted',
+    };
+  }
+
+  private parseId(id: string): number {
+    const parsedId = parseInt(id);
+    if (isNaN(parsedId)) {
+      throw new BadRequestException('Invalid ID format. ID must be a valid integer.');
+    }
+
+    return parsedId;
+  }
+}
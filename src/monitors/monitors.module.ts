@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { MonitorsController } from './monitors.controller';
+import { MonitorsService } from './monitors.service';
+import { UrlFetcherModule } from '../url-fetcher/url-fetcher.module';
+
+@Module({
+  imports: [UrlFetcherModule],
+  controllers: [MonitorsController],
+  providers: [MonitorsService],
+  exports: [MonitorsService],
+})
+export class MonitorsModule {}
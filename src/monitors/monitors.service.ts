@@ -0,0 +1,243 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { CronExpressionParser } from 'cron-parser';
+import { PostgresService } from '../integrations/postgres/postgres.service';
+import { UrlFetcherService } from '../url-fetcher/url-fetcher.service';
+import { CreateMonitorDto } from './dto/create-monitor.dto';
+import { UpdateMonitorDto } from './dto/update-monitor.dto';
+import { Monitor } from './entities/monitor.entity';
+import { TlsCertificateInfo, TlsError } from '../integrations/http/tls-certificate';
+
+const DEFAULT_SCHEDULER_TICK_MS = 5000;
+const DUE_MONITORS_BATCH_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A monitored host whose certificate is about to expire, or already has.
+ * `certificate` is null when the last fetch was refused for an expired
+ * certificate, which is then described by `tls_error`.
+ */
+export interface ExpiringCertificate {
+  host: string;
+  url: string;
+  monitor_id: number;
+  certificate: TlsCertificateInfo | null;
+  tls_error: TlsError | null;
+  expires_at: Date | null;
+  // Negative once the certificate has expired
+  days_remaining: number | null;
+  fetched_at: Date;
+}
+
+@Injectable()
+export class MonitorsService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(MonitorsService.name);
+
+  private readonly schedulerEnabled = process.env.MONITOR_SCHEDULER_ENABLED !== 'false';
+  private readonly schedulerTickMs = parseInt(process.env.MONITOR_SCHEDULER_TICK_MS) || DEFAULT_SCHEDULER_TICK_MS;
+
+  private schedulerTimer: NodeJS.Timeout | null = null;
+  private tickInProgress = false;
+  private readonly runningMonitorIds = new Set<number>();
+
+  constructor(
+    private readonly urlFetcherService: UrlFetcherService,
+    private readonly postgresService: PostgresService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (!this.schedulerEnabled) {
+      this.logger.log('Monitor scheduler is disabled');
+      return;
+    }
+
+    this.schedulerTimer = setInterval(() => this.runDueMonitors(), this.schedulerTickMs);
+    this.schedulerTimer.unref();
+    this.logger.log(`Monitor scheduler started (tick every ${this.schedulerTickMs}ms)`);
+  }
+
+  onModuleDestroy(): void {
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+  }
+
+  async createMonitor(createMonitorDto: CreateMonitorDto): Promise<Monitor> {
+    const { intervalSeconds, cronExpression } = createMonitorDto;
+    if (!intervalSeconds === !cronExpression) {
+      throw new BadRequestException('Exactly one of intervalSeconds or cronExpression must be provided');
+    }
+
+    const [url] = this.urlFetcherService.validateUrls([createMonitorDto.url]);
+    const schedule = { intervalSeconds, cronExpression };
+
+    const monitor = await this.postgresService.createMonitor({
+      url,
+      intervalSeconds: intervalSeconds ?? null,
+      cronExpression: cronExpression ?? null,
+      enabled: createMonitorDto.enabled ?? true,
+      // Interval monitors run right away, cron monitors wait for their first slot
+      nextRunAt: intervalSeconds ? new Date() : this.computeNextRun(schedule, new Date()),
+    });
+
+    this.logger.log(`Created monitor ${monitor.id} for ${url}`);
+    return monitor;
+  }
+
+  async getMonitors(): Promise<Monitor[]> {
+    this.logger.log('Retrieving all monitors');
+    return this.postgresService.getMonitors();
+  }
+
+  async getMonitorById(id: number): Promise<Monitor | null> {
+    this.logger.log(`Retrieving monitor with id: ${id}`);
+    return this.postgresService.getMonitorById(id);
+  }
+
+  async updateMonitor(id: number, updateMonitorDto: UpdateMonitorDto): Promise<Monitor> {
+    const existing = await this.postgresService.getMonitorById(id);
+    if (!existing) {
+      throw new NotFoundException(`Monitor ${id} not found`);
+    }
+
+    const { intervalSeconds, cronExpression, enabled } = updateMonitorDto;
+    if (intervalSeconds && cronExpression) {
+      throw new BadRequestException('Only one of intervalSeconds or cronExpression can be provided');
+    }
+
+    const changes: Partial<Monitor> = { enabled };
+
+    if (updateMonitorDto.url !== undefined) {
+      [changes.url] = this.urlFetcherService.validateUrls([updateMonitorDto.url]);
+    }
+
+    if (intervalSeconds) {
+      changes.intervalSeconds = intervalSeconds;
+      changes.cronExpression = null;
+    } else if (cronExpression) {
+      changes.cronExpression = cronExpression;
+      changes.intervalSeconds = null;
+    }
+
+    // Reschedule when the schedule changes or a disabled monitor is enabled again
+    if (intervalSeconds || cronExpression || (enabled && !existing.enabled)) {
+      const schedule = {
+        intervalSeconds: changes.intervalSeconds === undefined ? existing.intervalSeconds : changes.intervalSeconds,
+        cronExpression: changes.cronExpression === undefined ? existing.cronExpression : changes.cronExpression,
+      };
+      changes.nextRunAt = this.computeNextRun(schedule, new Date());
+    }
+
+    await this.postgresService.updateMonitor(id, changes);
+    this.logger.log(`Updated monitor ${id}`);
+
+    return this.postgresService.getMonitorById(id);
+  }
+
+  async deleteMonitor(id: number): Promise<void> {
+    const existing = await this.postgresService.getMonitorById(id);
+    if (!existing) {
+      throw new NotFoundException(`Monitor ${id} not found`);
+    }
+
+    await this.postgresService.deleteMonitor(id);
+    this.logger.log(`Deleted monitor ${id}`);
+  }
+
+  /**
+   * Hosts of enabled monitors whose certificate, as of their last fetch,
+   * expires within `withinDays`, soonest first.
+   */
+  async getExpiringCertificates(withinDays: number, now: Date = new Date()): Promise<ExpiringCertificate[]> {
+    const certificates = await this.postgresService.getExpiringCertificates(new Date(now.getTime() + withinDays * DAY_MS));
+
+    return certificates.map(certificate => ({
+      ...certificate,
+      days_remaining: certificate.expires_at
+        ? Math.floor((new Date(certificate.expires_at).getTime() - now.getTime()) / DAY_MS)
+        : null,
+    }));
+  }
+
+  /**
+   * Runs every enabled monitor whose next run is due. Monitors that are still
+   * running from a previous tick are skipped.
+   */
+  async runDueMonitors(): Promise<void> {
+    if (this.tickInProgress) {
+      return;
+    }
+
+    this.tickInProgress = true;
+    try {
+      const dueMonitors = await this.postgresService.getDueMonitors(DUE_MONITORS_BATCH_SIZE);
+      const monitorsToRun = dueMonitors.filter(monitor => !this.runningMonitorIds.has(monitor.id));
+
+      await Promise.allSettled(monitorsToRun.map(monitor => this.runMonitor(monitor)));
+    } catch (error) {
+      this.logger.error('Failed to run due monitors:', error);
+    } finally {
+      this.tickInProgress = false;
+    }
+  }
+
+  private async runMonitor(monitor: Monitor): Promise<void> {
+    this.runningMonitorIds.add(monitor.id);
+    const ranAt = new Date();
+
+    let status: number | undefined;
+    let error: string | undefined;
+
+    try {
+      // Monitors watch for changes, so they always fetch rather than reuse a cached result
+      const [saved] = await this.urlFetcherService.fetchUrls({ urls: [{ url: monitor.url, maxAgeSeconds: 0 }] });
+      // fetchUrls returns stored rows in their serialized (snake_case) form
+      const row = saved as unknown as { response_status?: number; error_message?: string } | undefined;
+      status = row?.response_status ?? undefined;
+      if (status === undefined) {
+        // Such as a timeout, a DNS or TLS failure, or a URL robots.txt disallows
+        error = row?.error_message || 'Fetch failed without a response';
+      } else if (status >= 400) {
+        error = `HTTP ${status}`;
+      }
+    } catch (fetchError) {
+      error = fetchError.message;
+    }
+
+    const succeeded = error === undefined;
+    if (!succeeded) {
+      this.logger.warn(`Monitor ${monitor.id} run failed for ${monitor.url}: ${error}`);
+    }
+
+    try {
+      await this.postgresService.recordMonitorRun(monitor.id, {
+        ranAt,
+        nextRunAt: this.computeNextRun(monitor, ranAt),
+        status,
+        error,
+        succeeded,
+      });
+    } finally {
+      this.runningMonitorIds.delete(monitor.id);
+    }
+  }
+
+  private computeNextRun(schedule: { intervalSeconds?: number; cronExpression?: string }, from: Date): Date {
+    if (schedule.intervalSeconds) {
+      return new Date(from.getTime() + schedule.intervalSeconds * 1000);
+    }
+
+    try {
+      return CronExpressionParser.parse(schedule.cronExpression, { currentDate: from }).next().toDate();
+    } catch (error) {
+      throw new BadRequestException(`Invalid cron expression '${schedule.cronExpression}': ${error.message}`);
+    }
+  }
+}
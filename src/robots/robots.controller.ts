@@ -0,0 +1,82 @@
+import { Controller, Get, Delete, HttpStatus, HttpCode, Query, BadRequestException } from '@nestjs/common';
+import { RobotsCacheEntry, RobotsService, RobotsStatus } from '../integrations/http/robots.service';
+
+export interface RobotsCacheEntryResponse {
+  origin: string;
+  status: RobotsStatus;
+  response_status: number | null;
+  error: string | null;
+  groups: {
+    user_agents: string[];
+    rules: { type: 'allow' | 'disallow'; path: string }[];
+    crawl_delay_seconds: number | null;
+  }[];
+  fetched_at: Date;
+  expires_at: Date;
+}
+
+@Controller('robots')
+export class RobotsController {
+  constructor(private readonly robotsService: RobotsService) {}
+
+  /**
+   * The robots.txt files currently cached, optionally only the one of `origin`
+   * (for example https://example.com). Expired entries are left out.
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  getCache(@Query('origin') origin?: string): {
+    message: string;
+    data: RobotsCacheEntryResponse[];
+    count: number;
+  } {
+    const normalizedOrigin = origin === undefined ? undefined : this.parseOrigin(origin);
+    const entries = this.robotsService.getEntries()
+      .filter(entry => normalizedOrigin === undefined || entry.origin === normalizedOrigin)
+      .map(entry => this.toResponse(entry));
+
+    return {
+      message: 'Successfully retrieved cached robots.txt files',
+      data: entries,
+      count: entries.length,
+    };
+  }
+
+  /**
+   * Drops cached robots.txt files so they are fetched again on next use.
+   */
+  @Delete()
+  @HttpCode(HttpStatus.OK)
+  clearCache(@Query('origin') origin?: string): { message: string; count: number } {
+    const count = this.robotsService.clear(origin === undefined ? undefined : this.parseOrigin(origin));
+
+    return {
+      message: `Removed ${count} cached robots.txt ${count === 1 ? 'file' : 'files'}`,
+      count,
+    };
+  }
+
+  private parseOrigin(origin: string): string {
+    try {
+      return new URL(origin).origin;
+    } catch {
+      throw new BadRequestException('Invalid origin format. Origin must be a URL such as https://example.com.');
+    }
+  }
+
+  private toResponse(entry: RobotsCacheEntry): RobotsCacheEntryResponse {
+    return {
+      origin: entry.origin,
+      status: entry.status,
+      response_status: entry.responseStatus ?? null,
+      error: entry.error ?? null,
+      groups: entry.robots.groups.map(group => ({
+        user_agents: group.userAgents,
+        rules: group.rules,
+        crawl_delay_seconds: group.crawlDelaySeconds ?? null,
+      })),
+      fetched_at: entry.fetchedAt,
+      expires_at: entry.expiresAt,
+    };
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { RobotsController } from './robots.controller';
+import { UrlFetcherModule } from '../url-fetcher/url-fetcher.module';
+
+@Module({
+  imports: [UrlFetcherModule],
+  controllers: [RobotsController],
+})
+export class RobotsModule {}
@@ -0,0 +1,10 @@
+import { IsString, IsOptional, IsBoolean } from 'class-validator';
+
+export class ValidateUrlDto {
+  @IsString({ message: 'url must be a string' })
+  url: string;
+
+  @IsOptional()
+  @IsBoolean({ message: 'resolve must be a boolean' })
+  resolve?: boolean;
+}
@@ -0,0 +1,53 @@
+import { Controller, Get, Post, Body, HttpStatus, HttpCode } from '@nestjs/common';
+import { SecurityService, ResolvedUrlValidationResult } from '../integrations/security/security.service';
+import { SecurityPolicy } from '../integrations/security/security-policy';
+import { ValidateUrlDto } from './dto/validate-url.dto';
+
+@Controller('security')
+export class SecurityController {
+  constructor(private readonly securityService: SecurityService) {}
+
+  @Get('policy')
+  @HttpCode(HttpStatus.OK)
+  getPolicy(): {
+    message: string;
+    data: ReturnType<SecurityPolicy['toJSON']>;
+  } {
+    return {
+      message: 'Successfully retrieved security policy',
+      data: this.securityService.getPolicy().toJSON(),
+    };
+  }
+
+  /**
+   * Dry run of the checks a fetch goes through. Nothing is fetched; with
+   * `resolve` (the default) the hostname is resolved and its addresses checked too.
+   */
+  @Post('validate')
+  @HttpCode(HttpStatus.OK)
+  async validateUrl(@Body() validateUrlDto: ValidateUrlDto): Promise<{
+    message: string;
+    data: {
+      url: string;
+      allowed: boolean;
+      sanitized_url: string | null;
+      resolved_address: string | null;
+      error: string | null;
+    };
+  }> {
+    const result: ResolvedUrlValidationResult = validateUrlDto.resolve === false
+      ? this.securityService.validateUrl(validateUrlDto.url)
+      : await this.securityService.resolveUrl(validateUrlDto.url);
+
+    return {
+      message: result.isValid ? 'URL is allowed' : 'URL is not allowed',
+      data: {
+        url: validateUrlDto.url,
+        allowed: result.isValid,
+        sanitized_url: result.sanitizedUrl ?? null,
+        resolved_address: result.address ?? null,
+        error: result.error ?? null,
+      },
+    };
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { SecurityController } from './security.controller';
+import { UrlFetcherModule } from '../url-fetcher/url-fetcher.module';
+
+@Module({
+  imports: [UrlFetcherModule],
+  controllers: [SecurityController],
+})
+export class SecurityModule {}
@@ -0,0 +1,49 @@
+import { createHash } from 'crypto';
+import { createTwoFilesPatch } from 'diff';
+
+export interface HeadersDiff {
+  added: Record<string, unknown>;
+  removed: Record<string, unknown>;
+  changed: Record<string, { from: unknown; to: unknown }>;
+}
+
+/**
+ * SHA-256 hex digest of a stored response body, or null when there is no body.
+ * Binary bodies are hashed as bytes, and the digest doubles as their blob key.
+ */
+export function hashContent(body: string | Buffer | null | undefined): string | null {
+  if (body === null || body === undefined) {
+    return null;
+  }
+
+  return createHash('sha256').update(body).digest('hex');
+}
+
+export function diffBodies(fromLabel: string, fromBody: string | null, toLabel: string, toBody: string | null): string {
+  return createTwoFilesPatch(fromLabel, toLabel, fromBody ?? '', toBody ?? '');
+}
+
+export function diffHeaders(
+  fromHeaders: Record<string, unknown> | null,
+  toHeaders: Record<string, unknown> | null,
+): HeadersDiff {
+  const from = fromHeaders || {};
+  const to = toHeaders || {};
+  const diff: HeadersDiff = { added: {}, removed: {}, changed: {} };
+
+  for (const [name, value] of Object.entries(to)) {
+    if (!(name in from)) {
+      diff.added[name] = value;
+    } else if (JSON.stringify(from[name]) !== JSON.stringify(value)) {
+      diff.changed[name] = { from: from[name], to: value };
+    }
+  }
+
+  for (const [name, value] of Object.entries(from)) {
+    if (!(name in to)) {
+      diff.removed[name] = value;
+    }
+  }
+
+  return diff;
+}
@@ -1,9 +1,209 @@
-import { IsArray, IsString, ArrayMinSize, ArrayMaxSize, IsUrl } from 'class-validator';
+import {
+  IsArray,
+  IsString,
+  ArrayMinSize,
+  ArrayMaxSize,
+  IsOptional,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsObject,
+  IsNumber,
+  ValidateNested,
+  Min,
+  Max,
+  MaxLength,
+  ValidateBy,
+  ValidationError,
+  ValidationOptions,
+  validateSync,
+} from 'class-validator';
+import { Type, plainToInstance } from 'class-transformer';
+
+export const FETCH_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+const MAX_REQUEST_BODY_LENGTH = 1024 * 1024;
+
+// Headers derived from the URL or the body, which cannot be set per request
+const RESERVED_HEADERS = ['host', 'content-length', 'transfer-encoding', 'connection'];
+
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+function IsRequestHeaders(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isRequestHeaders',
+      validator: {
+        validate: (value: Record<string, unknown>) => Object.entries(value || {}).every(([name, headerValue]) =>
+          HEADER_NAME_PATTERN.test(name) &&
+          !RESERVED_HEADERS.includes(name.toLowerCase()) &&
+          typeof headerValue === 'string'
+        ),
+        defaultMessage: () =>
+          `headers must map valid header names to string values and cannot set ${RESERVED_HEADERS.join(', ')}`,
+      },
+    },
+    validationOptions,
+  );
+}
+
+export class RetryOptionsDto {
+  @IsOptional()
+  @IsInt({ message: 'retry.maxAttempts must be an integer' })
+  @Min(1, { message: 'retry.maxAttempts must be at least 1' })
+  @Max(10, { message: 'retry.maxAttempts must be at most 10' })
+  maxAttempts?: number;
+
+  @IsOptional()
+  @IsInt({ message: 'retry.baseDelayMs must be an integer' })
+  @Min(0, { message: 'retry.baseDelayMs must be at least 0' })
+  @Max(60000, { message: 'retry.baseDelayMs must be at most 60000' })
+  baseDelayMs?: number;
+
+  @IsOptional()
+  @IsInt({ message: 'retry.maxDelayMs must be an integer' })
+  @Min(0, { message: 'retry.maxDelayMs must be at least 0' })
+  @Max(300000, { message: 'retry.maxDelayMs must be at most 300000' })
+  maxDelayMs?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'retry.jitter must be a number' })
+  @Min(0, { message: 'retry.jitter must be at least 0' })
+  @Max(1, { message: 'retry.jitter must be at most 1' })
+  jitter?: number;
+
+  @IsOptional()
+  @IsArray({ message: 'retry.retryOnStatus must be an array' })
+  @IsInt({ each: true, message: 'retry.retryOnStatus must contain status codes between 100 and 599' })
+  @Min(100, { each: true, message: 'retry.retryOnStatus must contain status codes between 100 and 599' })
+  @Max(599, { each: true, message: 'retry.retryOnStatus must contain status codes between 100 and 599' })
+  retryOnStatus?: number[];
+
+  @IsOptional()
+  @IsArray({ message: 'retry.retryOnErrorCodes must be an array' })
+  @IsString({ each: true, message: 'retry.retryOnErrorCodes must contain error codes such as ECONNRESET' })
+  retryOnErrorCodes?: string[];
+}
+
+export class UrlFetchRequestDto {
+  @IsString({ message: 'url must be a string' })
+  url: string;
+
+  @IsOptional()
+  @IsIn(FETCH_METHODS, { message: `method must be one of ${FETCH_METHODS.join(', ')}` })
+  method?: string;
+
+  @IsOptional()
+  @IsObject({ message: 'headers must be an object' })
+  @IsRequestHeaders()
+  headers?: Record<string, string>;
+
+  @IsOptional()
+  @IsString({ message: 'body must be a string' })
+  @MaxLength(MAX_REQUEST_BODY_LENGTH, { message: `body must be at most ${MAX_REQUEST_BODY_LENGTH} characters` })
+  body?: string;
+
+  @IsOptional()
+  @IsInt({ message: 'timeoutMs must be an integer' })
+  @Min(100, { message: 'timeoutMs must be at least 100' })
+  @Max(60000, { message: 'timeoutMs must be at most 60000' })
+  timeoutMs?: number;
+
+  @IsOptional()
+  @IsInt({ message: 'maxRedirects must be an integer' })
+  @Min(0, { message: 'maxRedirects must be at least 0' })
+  @Max(10, { message: 'maxRedirects must be at most 10' })
+  maxRedirects?: number;
+
+  @IsOptional()
+  @IsString({ message: 'userAgent must be a string' })
+  @MaxLength(256, { message: 'userAgent must be at most 256 characters' })
+  userAgent?: string;
+
+  @IsOptional()
+  @IsObject({ message: 'retry must be an object' })
+  @ValidateNested()
+  @Type(() => RetryOptionsDto)
+  retry?: RetryOptionsDto;
+
+  @IsOptional()
+  @IsBoolean({ message: 'respectRobots must be a boolean' })
+  respectRobots?: boolean;
+
+  @IsOptional()
+  @IsInt({ message: 'maxAgeSeconds must be an integer' })
+  @Min(0, { message: 'maxAgeSeconds must be at least 0' })
+  @Max(86400, { message: 'maxAgeSeconds must be at most 86400' })
+  maxAgeSeconds?: number;
+}
+
+// Nested objects such as `retry` report their errors on child entries
+function flattenConstraints(errors: ValidationError[]): string[] {
+  const messages = errors.flatMap(error => [
+    ...Object.values(error.constraints || {}),
+    ...flattenConstraints(error.children || []),
+  ]);
+  return [...new Set(messages)];
+}
+
+export type UrlFetchEntry = string | UrlFetchRequestDto;
+
+/**
+ * Returns the validation errors of a single `urls` entry, which is either a
+ * URL string or a request object.
+ */
+function getUrlFetchEntryErrors(entry: unknown): string[] {
+  if (typeof entry === 'string') {
+    return [];
+  }
+
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    return ['must be a URL string or a request object'];
+  }
+
+  const request = plainToInstance(UrlFetchRequestDto, entry);
+  const errors = flattenConstraints(validateSync(request, { whitelist: true, forbidNonWhitelisted: true }));
+
+  if (request.body !== undefined && ['GET', 'HEAD'].includes(request.method || 'GET')) {
+    errors.push('body is not allowed for GET and HEAD requests');
+  }
+
+  return errors;
+}
+
+function IsUrlFetchEntries(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isUrlFetchEntries',
+      validator: {
+        validate: (entries: unknown[]) =>
+          Array.isArray(entries) && entries.every(entry => getUrlFetchEntryErrors(entry).length === 0),
+        defaultMessage: args => {
+          const entries = Array.isArray(args.value) ? args.value : [];
+          return entries
+            .map((entry, index) => getUrlFetchEntryErrors(entry).map(error => `urls[${index}]: ${error}`))
+            .flat()
+            .join('; ');
+        },
+      },
+    },
+    validationOptions,
+  );
+}
 
 export class CreateUrlFetchDto {
   @IsArray()
   @ArrayMinSize(1, { message: 'At least one URL is required' })
   @ArrayMaxSize(100, { message: 'Maximum 100 URLs allowed per request' })
-  @IsString({ each: true, message: 'Each URL must be a string' })
-  urls: string[];
-} 
\ No newline at end of file
+  @IsUrlFetchEntries()
+  urls: UrlFetchEntry[];
+
+  @IsOptional()
+  @IsBoolean({ message: 'async must be a boolean' })
+  async?: boolean;
+
+  // Reject only the URLs that fail security validation and fetch the rest
+  @IsOptional()
+  @IsBoolean({ message: 'partial must be a boolean' })
+  partial?: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+/**
+ * One try at fetching a URL. A fetch that was retried has one row per attempt,
+ * all pointing at the history entry of the stored result.
+ */
+@Entity('fetch_attempts')
+@Index('idx_fetch_attempts_url_fetch_id', ['urlFetchId', 'startedAt'])
+export class FetchAttempt {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ name: 'url_fetch_id', type: 'int' })
+  urlFetchId: number;
+
+  @Column({ name: 'history_id', type: 'int', nullable: true })
+  historyId: number;
+
+  @Column({ type: 'text' })
+  url: string;
+
+  @Column({ type: 'int' })
+  attempt: number;
+
+  @Column({ name: 'response_status', type: 'int', nullable: true })
+  responseStatus: number;
+
+  @Column({ type: 'text', nullable: true })
+  error: string;
+
+  @Column({ name: 'error_code', type: 'text', nullable: true })
+  errorCode: string;
+
+  @Column({ name: 'duration_ms', type: 'int' })
+  durationMs: number;
+
+  @Column({ name: 'retry_delay_ms', type: 'int', nullable: true })
+  retryDelayMs: number;
+
+  @Column({ name: 'started_at', type: 'timestamptz' })
+  startedAt: Date;
+
+  toJSON() {
+    return {
+      id: this.id,
+      url_fetch_id: this.urlFetchId,
+      history_id: this.historyId,
+      url: this.url,
+      attempt: this.attempt,
+      response_status: this.responseStatus,
+      error: this.error,
+      error_code: this.errorCode,
+      duration_ms: this.durationMs,
+      retry_delay_ms: this.retryDelayMs,
+      started_at: this.startedAt,
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { FetchOptions } from '../../integrations/http/http.service';
+
+export type FetchJobStatus = 'pending' | 'running' | 'completed';
+
+// `rejected` items failed security validation in partial mode and were never fetched
+export type FetchJobItemStatus = 'pending' | 'completed' | 'failed' | 'rejected';
+
+export interface FetchJobItem {
+  url: string;
+  status: FetchJobItemStatus;
+  // Only kept while the item is pending, with credential-bearing headers redacted
+  options?: FetchOptions;
+  urlFetchId?: number;
+  error?: string;
+}
+
+@Entity('fetch_jobs')
+@Index('idx_fetch_jobs_status', ['status'])
+export class FetchJob {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ type: 'text', default: 'pending' })
+  status: FetchJobStatus;
+
+  @Column({ type: 'jsonb' })
+  items: FetchJobItem[];
+
+  @Column({ name: 'total_urls', type: 'int' })
+  totalUrls: number;
+
+  @Column({ name: 'completed_urls', type: 'int', default: 0 })
+  completedUrls: number;
+
+  @Column({ name: 'failed_urls', type: 'int', default: 0 })
+  failedUrls: number;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @Column({ name: 'started_at', type: 'timestamptz', nullable: true })
+  startedAt: Date;
+
+  @Column({ name: 'completed_at', type: 'timestamptz', nullable: true })
+  completedAt: Date;
+
+  @Column({ name: 'duration_ms', type: 'int', nullable: true })
+  durationMs: number;
+
+  // Refreshed by the instance running the job, which other instances leave alone until it goes stale
+  @Column({ name: 'heartbeat_at', type: 'timestamptz', nullable: true })
+  heartbeatAt: Date;
+
+  toJSON() {
+    return {
+      id: this.id,
+      status: this.status,
+      total_urls: this.totalUrls,
+      completed_urls: this.completedUrls,
+      failed_urls: this.failedUrls,
+      items: (this.items || []).map(item => ({
+        url: item.url,
+        status: item.status,
+        url_fetch_id: item.urlFetchId ?? null,
+        error: item.error ?? null,
+      })),
+      created_at: this.createdAt,
+      started_at: this.startedAt,
+      completed_at: this.completedAt,
+      duration_ms: this.durationMs,
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+import { FetchRequestOptions, RedirectHop } from '../../integrations/http/http.service';
+import { FetchTimings } from '../../integrations/http/request-timings';
+import { TlsCertificateInfo, TlsError } from '../../integrations/http/tls-certificate';
+
+/**
+ * Append-only record of every stored fetch. `url_fetches` keeps the latest
+ * result per URL while this table keeps all of them.
+ */
+@Entity('url_fetch_history')
+@Index('idx_history_url_fetched_at', ['url', 'fetchedAt'])
+export class UrlFetchHistory {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ name: 'url_fetch_id', type: 'int' })
+  urlFetchId: number;
+
+  @Column({ type: 'text' })
+  url: string;
+
+  @Column({ name: 'response_status', type: 'int', nullable: true })
+  responseStatus: number;
+
+  @Column({ name: 'response_headers', type: 'jsonb', nullable: true })
+  responseHeaders: Record<string, unknown>;
+
+  @Column({ name: 'response_body', type: 'text', nullable: true })
+  responseBody: string;
+
+  @Column({ name: 'content_type', type: 'text', nullable: true })
+  contentType: string;
+
+  @Column({ name: 'content_hash', type: 'text', nullable: true })
+  contentHash: string;
+
+  @Column({ type: 'boolean', nullable: true })
+  changed: boolean;
+
+  @Column({ name: 'request_options', type: 'jsonb', nullable: true })
+  requestOptions: FetchRequestOptions;
+
+  @Column({ name: 'body_truncated', type: 'boolean', nullable: true })
+  bodyTruncated: boolean;
+
+  @Column({ name: 'body_size_bytes', type: 'int', nullable: true })
+  bodySizeBytes: number;
+
+  @Column({ name: 'download_duration_ms', type: 'int', nullable: true })
+  downloadDurationMs: number;
+
+  // Binary bodies are kept in the blob store under content_hash instead of response_body
+  @Column({ name: 'is_binary', type: 'boolean', nullable: true })
+  isBinary: boolean;
+
+  // Number of attempts it took, including retries
+  @Column({ type: 'int', nullable: true })
+  attempts: number;
+
+  // Why the fetch failed, such as timeout or blocked_by_robots, and the error it failed with
+  @Column({ name: 'error_code', type: 'text', nullable: true })
+  errorCode: string;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage: string;
+
+  // Set when the server answered 304 and the body of the previous fetch was kept
+  @Column({ name: 'not_modified', type: 'boolean', nullable: true })
+  notModified: boolean;
+
+  // Redirects followed from `url`, and where they ended
+  @Column({ name: 'redirect_chain', type: 'jsonb', nullable: true })
+  redirectChain: RedirectHop[];
+
+  @Column({ name: 'final_url', type: 'text', nullable: true })
+  finalUrl: string;
+
+  @Column({ name: 'final_host', type: 'text', nullable: true })
+  finalHost: string;
+
+  // Time spent in each phase of the request: DNS, connect, TLS, time to first byte, download
+  @Column({ type: 'jsonb', nullable: true })
+  timings: FetchTimings;
+
+  // Peer certificate of an HTTPS fetch, or why the TLS connection was refused
+  @Column({ name: 'tls_certificate', type: 'jsonb', nullable: true })
+  tlsCertificate: TlsCertificateInfo;
+
+  @Column({ name: 'tls_error', type: 'jsonb', nullable: true })
+  tlsError: TlsError;
+
+  // Proxy the fetch went through, without credentials
+  @Column({ type: 'text', nullable: true })
+  proxy: string;
+
+  // Vault credential sent with the fetch; the secret itself is never stored
+  @Column({ name: 'credential_id', type: 'int', nullable: true })
+  credentialId: number;
+
+  @Column({ name: 'fetched_at', type: 'timestamptz' })
+  fetchedAt: Date;
+
+  toJSON() {
+    return {
+      id: this.id,
+      url_fetch_id: this.urlFetchId,
+      url: this.url,
+      response_status: this.responseStatus,
+      response_headers: this.responseHeaders,
+      response_body: this.responseBody,
+      content_type: this.contentType,
+      content_hash: this.contentHash,
+      changed: this.changed,
+      request_options: this.requestOptions,
+      body_truncated: this.bodyTruncated,
+      body_size_bytes: this.bodySizeBytes,
+      download_duration_ms: this.downloadDurationMs,
+      is_binary: this.isBinary,
+      attempts: this.attempts,
+      error_code: this.errorCode,
+      error_message: this.errorMessage,
+      not_modified: this.notModified,
+      redirect_chain: this.redirectChain,
+      final_url: this.finalUrl,
+      final_host: this.finalHost,
+      timings: this.timings,
+      tls_certificate: this.tlsCertificate,
+      tls_error: this.tlsError,
+      proxy: this.proxy,
+      credential_id: this.credentialId,
+      fetched_at: this.fetchedAt,
+    };
+  }
+}
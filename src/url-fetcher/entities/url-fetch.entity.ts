@@ -1,4 +1,7 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { FetchRequestOptions, RedirectHop } from '../../integrations/http/http.service';
+import { FetchTimings } from '../../integrations/http/request-timings';
+import { TlsCertificateInfo, TlsError } from '../../integrations/http/tls-certificate';
 
 @Entity('url_fetches')
 @Index('idx_url', ['url'])
@@ -23,6 +26,72 @@ export class UrlFetch {
   @Column({ name: 'content_type', type: 'text', nullable: true })
   contentType: string;
 
+  @Column({ name: 'content_hash', type: 'text', nullable: true })
+  contentHash: string;
+
+  @Column({ type: 'boolean', nullable: true })
+  changed: boolean;
+
+  @Column({ name: 'request_options', type: 'jsonb', nullable: true })
+  requestOptions: FetchRequestOptions;
+
+  @Column({ name: 'body_truncated', type: 'boolean', nullable: true })
+  bodyTruncated: boolean;
+
+  @Column({ name: 'body_size_bytes', type: 'int', nullable: true })
+  bodySizeBytes: number;
+
+  @Column({ name: 'download_duration_ms', type: 'int', nullable: true })
+  downloadDurationMs: number;
+
+  // Binary bodies are kept in the blob store under content_hash instead of response_body
+  @Column({ name: 'is_binary', type: 'boolean', nullable: true })
+  isBinary: boolean;
+
+  // Number of attempts it took, including retries
+  @Column({ type: 'int', nullable: true })
+  attempts: number;
+
+  // Why the fetch failed, such as timeout or blocked_by_robots, and the error it failed with
+  @Column({ name: 'error_code', type: 'text', nullable: true })
+  errorCode: string;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage: string;
+
+  // Set when the server answered 304 and the body of the previous fetch was kept
+  @Column({ name: 'not_modified', type: 'boolean', nullable: true })
+  notModified: boolean;
+
+  // Redirects followed from `url`, and where they ended
+  @Column({ name: 'redirect_chain', type: 'jsonb', nullable: true })
+  redirectChain: RedirectHop[];
+
+  @Column({ name: 'final_url', type: 'text', nullable: true })
+  finalUrl: string;
+
+  @Column({ name: 'final_host', type: 'text', nullable: true })
+  finalHost: string;
+
+  // Time spent in each phase of the request: DNS, connect, TLS, time to first byte, download
+  @Column({ type: 'jsonb', nullable: true })
+  timings: FetchTimings;
+
+  // Peer certificate of an HTTPS fetch, or why the TLS connection was refused
+  @Column({ name: 'tls_certificate', type: 'jsonb', nullable: true })
+  tlsCertificate: TlsCertificateInfo;
+
+  @Column({ name: 'tls_error', type: 'jsonb', nullable: true })
+  tlsError: TlsError;
+
+  // Proxy the fetch went through, without credentials
+  @Column({ type: 'text', nullable: true })
+  proxy: string;
+
+  // Vault credential sent with the fetch; the secret itself is never stored
+  @Column({ name: 'credential_id', type: 'int', nullable: true })
+  credentialId: number;
+
   @CreateDateColumn({ name: 'fetched_at', type: 'timestamptz' })
   fetchedAt: Date;
 
@@ -34,7 +103,31 @@ export class UrlFetch {
       response_headers: this.responseHeaders,
       response_body: this.responseBody,
       content_type: this.contentType,
+      content_hash: this.contentHash,
+      changed: this.changed,
+      request_options: this.requestOptions,
+      body_truncated: this.bodyTruncated,
+      body_size_bytes: this.bodySizeBytes,
+      download_duration_ms: this.downloadDurationMs,
+      is_binary: this.isBinary,
+      attempts: this.attempts,
+      error_code: this.errorCode,
+      error_message: this.errorMessage,
+      not_modified: this.notModified,
+      redirect_chain: this.redirectChain,
+      final_url: this.finalUrl,
+      final_host: this.finalHost,
+      timings: this.timings,
+      tls_certificate: this.tlsCertificate,
+      tls_error: this.tlsError,
+      proxy: this.proxy,
+      credential_id: this.credentialId,
       fetched_at: this.fetchedAt,
     };
   }
-} 
\ No newline at end of file
+}
+
+export type UrlFetchField = keyof ReturnType<UrlFetch['toJSON']>;
+
+// The fields of a serialized URL fetch, which are also its column names
+export const URL_FETCH_FIELDS = Object.keys(new UrlFetch().toJSON()) as UrlFetchField[];
@@ -0,0 +1,128 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { MetricsService } from '../metrics/metrics.service';
+import { CACHE_STORE, CacheStore } from '../integrations/cache-store/cache-store';
+import { FetchOptions } from '../integrations/http/http.service';
+import { getFreshnessLifetimeMs, isStorable } from '../integrations/http/cache-control';
+import { hashContent } from './content-diff';
+import { UrlFetch } from './entities/url-fetch.entity';
+
+export const FETCH_CACHE_OPTIONS = 'FETCH_CACHE_OPTIONS';
+
+export interface FetchCacheOptions {
+  // Whether requests without maxAgeSeconds use the cache
+  enabled: boolean;
+  // How long a result is kept at most, whatever its headers say
+  maxTtlSeconds: number;
+  // Results larger than this, serialized, are not cached
+  maxEntryBytes: number;
+}
+
+const DEFAULT_OPTIONS: FetchCacheOptions = {
+  enabled: process.env.FETCH_CACHE_ENABLED === 'true',
+  maxTtlSeconds: parseInt(process.env.FETCH_CACHE_MAX_TTL_SECONDS) || 3600,
+  maxEntryBytes: parseInt(process.env.FETCH_CACHE_MAX_ENTRY_BYTES) || 1024 * 1024,
+};
+
+// Only safe methods return the same thing when repeated
+const CACHEABLE_METHODS = ['GET', 'HEAD'];
+
+export type StoredUrlFetch = ReturnType<UrlFetch['toJSON']>;
+
+interface CachedFetch {
+  result: StoredUrlFetch;
+  storedAt: number;
+  // When the response headers stop calling it fresh, or null when they give no lifetime
+  freshUntil: number | null;
+}
+
+/**
+ * Reuses recently stored results instead of fetching the same URL again. A
+ * result is fresh while its Cache-Control or Expires headers say so, or, when
+ * the request sets `maxAgeSeconds`, while it is younger than that. Requests
+ * with different methods, headers or User-Agents are cached separately.
+ */
+@Injectable()
+export class FetchCacheService {
+  private readonly logger = new Logger(FetchCacheService.name);
+  private readonly options: FetchCacheOptions;
+
+  constructor(
+    @Inject(CACHE_STORE) private readonly cacheStore: CacheStore,
+    private readonly metricsService: MetricsService,
+    @Optional() @Inject(FETCH_CACHE_OPTIONS) options?: Partial<FetchCacheOptions>,
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * A stored result that is still fresh for this request, or null.
+   */
+  async lookup(url: string, options: FetchOptions = {}, now: number = Date.now()): Promise<StoredUrlFetch | null> {
+    if (!this.appliesTo(options)) {
+      return null;
+    }
+
+    let cached: CachedFetch | null = null;
+    try {
+      const value = await this.cacheStore.get(this.getKey(url, options));
+      cached = value ? JSON.parse(value) : null;
+    } catch (error) {
+      // The cache only saves work, so a failing store means fetching as usual
+      this.logger.warn(`Fetch cache lookup failed for ${url}: ${error.message}`);
+    }
+
+    const fresh = cached !== null && (options.maxAgeSeconds !== undefined
+      ? now - cached.storedAt <= options.maxAgeSeconds * 1000
+      : cached.freshUntil !== null && now < cached.freshUntil);
+
+    this.metricsService.recordFetchCacheLookup(fresh);
+
+    return fresh ? cached.result : null;
+  }
+
+  /**
+   * Caches a stored result for later requests with the same options. Failed
+   * fetches, non-2xx responses and `no-store` or `private` responses are not cached.
+   */
+  async store(url: string, options: FetchOptions, result: StoredUrlFetch, now: number = Date.now()): Promise<void> {
+    if (
+      !this.appliesTo(options) ||
+      !(result.response_status >= 200 && result.response_status < 300) ||
+      result.error_code ||
+      !isStorable(result.response_headers)
+    ) {
+      return;
+    }
+
+    const lifetimeMs = getFreshnessLifetimeMs(result.response_headers);
+    const cached: CachedFetch = {
+      result,
+      storedAt: now,
+      freshUntil: lifetimeMs === undefined ? null : now + lifetimeMs,
+    };
+
+    const value = JSON.stringify(cached);
+    if (Buffer.byteLength(value) > this.options.maxEntryBytes) {
+      return;
+    }
+
+    try {
+      await this.cacheStore.set(this.getKey(url, options), value, this.options.maxTtlSeconds * 1000);
+    } catch (error) {
+      this.logger.warn(`Failed to cache the result of ${url}: ${error.message}`);
+    }
+  }
+
+  private appliesTo(options: FetchOptions): boolean {
+    if (!CACHEABLE_METHODS.includes(options.method || 'GET')) {
+      return false;
+    }
+
+    // An explicit maxAgeSeconds of 0 bypasses the cache
+    return options.maxAgeSeconds !== undefined ? options.maxAgeSeconds > 0 : this.options.enabled;
+  }
+
+  private getKey(url: string, options: FetchOptions): string {
+    return `fetch:${hashContent(JSON.stringify([options.method || 'GET', url, options.headers || {}, options.userAgent || null]))}`;
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { UrlFetch } from './entities/url-fetch.entity';
+
+export interface StoredFetchEvent {
+  /** The stored row in its serialized (`UrlFetch.toJSON()`) form */
+  urlFetch: ReturnType<UrlFetch['toJSON']>;
+  failed: boolean;
+}
+
+/**
+ * In-process stream of stored fetch results, so other modules can react to
+ * fetches without the fetch pipeline depending on them.
+ */
+@Injectable()
+export class FetchEventsService {
+  private readonly storedFetches = new Subject<StoredFetchEvent>();
+
+  get storedFetches$(): Observable<StoredFetchEvent> {
+    return this.storedFetches.asObservable();
+  }
+
+  publishStoredFetch(urlFetch: ReturnType<UrlFetch['toJSON']>): void {
+    this.storedFetches.next({
+      urlFetch,
+      failed: urlFetch.response_status === null || urlFetch.response_status === undefined,
+    });
+  }
+}
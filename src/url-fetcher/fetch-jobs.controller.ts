@@ -0,0 +1,28 @@
+import { Controller, Get, HttpStatus, HttpCode, Param, BadRequestException } from '@nestjs/common';
+import { FetchJobsService } from './fetch-jobs.service';
+import { FetchJob } from './entities/fetch-job.entity';
+import { UrlFetch } from './entities/url-fetch.entity';
+
+@Controller('fetch-jobs')
+export class FetchJobsController {
+  constructor(private readonly fetchJobsService: FetchJobsService) {}
+
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getFetchJobById(@Param('id') id: string): Promise<{
+    message: string;
+    data: (ReturnType<FetchJob['toJSON']> & { results: UrlFetch[] }) | null;
+  }> {
+    const parsedId = parseInt(id);
+    if (isNaN(parsedId)) {
+      throw new BadRequestException('Invalid ID format. ID must be a valid integer.');
+    }
+
+    const result = await this.fetchJobsService.getJobById(parsedId);
+
+    return {
+      message: result ? 'Fetch job found' : 'Fetch job not found',
+      data: result ? { ...result.job.toJSON(), results: result.results } : null,
+    };
+  }
+}
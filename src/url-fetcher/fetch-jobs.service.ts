@@ -0,0 +1,185 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { FetchOptions } from '../integrations/http/http.service';
+import { PostgresService } from '../integrations/postgres/postgres.service';
+import { SecurityService } from '../integrations/security/security.service';
+import { RejectedUrl, UrlFetchRequest, UrlFetcherService } from './url-fetcher.service';
+import { CreateUrlFetchDto } from './dto/create-url-fetch.dto';
+import { FetchJob } from './entities/fetch-job.entity';
+import { UrlFetch } from './entities/url-fetch.entity';
+
+// A job whose runner has not sent a heartbeat for this long is taken over by
+// another instance. NaN fails the comparison.
+const configuredLeaseMs = parseInt(process.env.FETCH_JOB_LEASE_MS);
+const JOB_LEASE_MS = configuredLeaseMs > 0 ? configuredLeaseMs : 60000;
+
+@Injectable()
+export class FetchJobsService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(FetchJobsService.name);
+
+  private resumeTimer: NodeJS.Timeout | null = null;
+  private readonly runningJobIds = new Set<number>();
+
+  constructor(
+    private readonly urlFetcherService: UrlFetcherService,
+    private readonly postgresService: PostgresService,
+    private readonly securityService: SecurityService,
+  ) {}
+
+  /**
+   * Resumes jobs that were still pending or running when their instance
+   * stopped, now and whenever another instance stops later on.
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    await this.resumeStaleJobs();
+
+    this.resumeTimer = setInterval(() => this.resumeStaleJobs(), JOB_LEASE_MS);
+    this.resumeTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.resumeTimer) {
+      clearInterval(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+  }
+
+  async resumeStaleJobs(): Promise<void> {
+    try {
+      const jobs = await this.postgresService.claimStaleFetchJobs(JOB_LEASE_MS);
+      if (jobs.length > 0) {
+        this.logger.log(`Resuming ${jobs.length} incomplete fetch jobs`);
+      }
+      // A job can only go stale here if its heartbeats failed, and then it is still running
+      jobs.filter(job => !this.runningJobIds.has(job.id)).forEach(job => this.startJob(job));
+    } catch (error) {
+      this.logger.error('Failed to resume incomplete fetch jobs:', error);
+    }
+  }
+
+  /**
+   * In partial mode, URLs that fail security validation become rejected items
+   * of the job instead of failing the request. Credential-bearing headers are
+   * stored redacted; the job runs with the originals, which stay in memory.
+   */
+  async createJob(createUrlFetchDto: CreateUrlFetchDto): Promise<FetchJob> {
+    let requests: UrlFetchRequest[];
+    let rejected: RejectedUrl[] = [];
+
+    if (createUrlFetchDto.partial) {
+      const entries = this.urlFetcherService.partitionRequests(createUrlFetchDto.urls);
+      requests = entries.filter(entry => entry.request).map(entry => entry.request);
+      rejected = entries.filter(entry => !entry.request).map(({ url, error }) => ({ url, error }));
+    } else {
+      requests = this.urlFetcherService.validateRequests(createUrlFetchDto.urls);
+    }
+
+    const job = await this.postgresService.createFetchJob(
+      requests.map(({ url, options }) => ({ url, options: this.redactOptions(options) })),
+      rejected,
+    );
+
+    this.logger.log(`Created fetch job ${job.id} for ${requests.length} URLs, ${rejected.length} rejected`);
+    // Pending items come first, in the order of the requests
+    this.startJob(job, requests.map(({ options }) => options));
+
+    return job;
+  }
+
+  async getJobById(id: number): Promise<{ job: FetchJob; results: UrlFetch[] } | null> {
+    this.logger.log(`Retrieving fetch job with id: ${id}`);
+
+    const job = await this.postgresService.getFetchJobById(id);
+    if (!job) {
+      return null;
+    }
+
+    const urlFetchIds = job.items
+      .filter(item => item.urlFetchId !== undefined)
+      .map(item => item.urlFetchId);
+    const results = await this.postgresService.getUrlFetchesByIds(urlFetchIds);
+
+    return { job, results };
+  }
+
+  /**
+   * `requestOptions` are the unredacted options of the items. Jobs resumed
+   * after a restart no longer have them.
+   */
+  private startJob(job: FetchJob, requestOptions?: FetchOptions[]): void {
+    this.runJob(job, requestOptions).catch(error => {
+      this.logger.error(`Fetch job ${job.id} failed:`, error);
+    });
+  }
+
+  private async runJob(job: FetchJob, requestOptions?: FetchOptions[]): Promise<void> {
+    this.runningJobIds.add(job.id);
+    // Item updates refresh the heartbeat too, but a slow item must not let the claim lapse
+    const heartbeatTimer = setInterval(() => {
+      this.postgresService.touchFetchJob(job.id).catch(error => {
+        this.logger.warn(`Failed to refresh the heartbeat of fetch job ${job.id}: ${error.message}`);
+      });
+    }, JOB_LEASE_MS / 3);
+    heartbeatTimer.unref();
+
+    try {
+      await this.processJob(job, requestOptions);
+    } finally {
+      clearInterval(heartbeatTimer);
+      this.runningJobIds.delete(job.id);
+    }
+  }
+
+  private async processJob(job: FetchJob, requestOptions?: FetchOptions[]): Promise<void> {
+    await this.postgresService.markFetchJobRunning(job.id);
+
+    const itemPromises = job.items.map(async (item, index) => {
+      if (item.status !== 'pending') {
+        return;
+      }
+
+      const options = requestOptions?.[index] ?? item.options;
+      if (!requestOptions && this.hasRedactedHeaders(item.options)) {
+        // Sending the item without its credentials would store a misleading result
+        this.logger.warn(`Fetch job ${job.id} cannot resume ${item.url}: its credentials were not kept`);
+        await this.postgresService.updateFetchJobItem(job.id, index, {
+          url: item.url,
+          status: 'failed',
+          error: 'The request carried credential headers, which are not kept across restarts; submit it again',
+        });
+        return;
+      }
+
+      try {
+        const entry = options && Object.keys(options).length > 0 ? { url: item.url, ...options } : item.url;
+        const [saved] = await this.urlFetcherService.fetchUrls({ urls: [entry] });
+        await this.postgresService.updateFetchJobItem(job.id, index, {
+          url: item.url,
+          status: 'completed',
+          urlFetchId: saved?.id,
+        });
+      } catch (error) {
+        this.logger.error(`Fetch job ${job.id} failed to process ${item.url}:`, error);
+        await this.postgresService.updateFetchJobItem(job.id, index, {
+          url: item.url,
+          status: 'failed',
+          error: error.message,
+        });
+      }
+    });
+
+    await Promise.allSettled(itemPromises);
+    await this.postgresService.completeFetchJob(job.id);
+
+    this.logger.log(`Fetch job ${job.id} completed`);
+  }
+
+  private redactOptions(options: FetchOptions): FetchOptions {
+    return options.headers ? { ...options, headers: this.securityService.redactHeaders(options.headers) } : options;
+  }
+
+  // Stored options had every sensitive header redacted, so any left means a lost credential
+  private hasRedactedHeaders(options: FetchOptions | undefined): boolean {
+    const redacted = this.securityService.redactHeaders(options?.headers);
+    return Object.values(redacted).some(value => value === '[REDACTED]');
+  }
+}
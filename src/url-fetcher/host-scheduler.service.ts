@@ -0,0 +1,157 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { MetricsService } from '../metrics/metrics.service';
+
+export const HOST_SCHEDULER_OPTIONS = 'HOST_SCHEDULER_OPTIONS';
+
+export interface HostSchedulerOptions {
+  maxConcurrency: number;
+  maxConcurrencyPerHost: number;
+  hostDelayMs: number;
+}
+
+// A limit below 1 would never start a task. NaN fails the comparison.
+const parseLimit = (value: string | undefined, fallback: number): number => {
+  const limit = parseInt(value);
+  return limit > 0 ? limit : fallback;
+};
+
+// 0 turns the delay off, so it cannot fall back with ||. NaN fails the comparison.
+const parseHostDelay = (value: string | undefined): number => {
+  const delayMs = parseInt(value);
+  return delayMs >= 0 ? delayMs : 100;
+};
+
+const DEFAULT_OPTIONS: HostSchedulerOptions = {
+  maxConcurrency: parseLimit(process.env.FETCH_MAX_CONCURRENCY, 10),
+  maxConcurrencyPerHost: parseLimit(process.env.FETCH_MAX_CONCURRENCY_PER_HOST, 2),
+  hostDelayMs: parseHostDelay(process.env.FETCH_HOST_DELAY_MS),
+};
+
+interface QueuedTask {
+  host: string;
+  enqueuedAt: number;
+  start: () => void;
+}
+
+interface HostState {
+  active: number;
+  lastStartedAt: number;
+}
+
+/**
+ * Queues fetches so that no more than `maxConcurrency` run at once, no more
+ * than `maxConcurrencyPerHost` run against the same host, and requests to the
+ * same host start at least `hostDelayMs` apart. Tasks start in the order they
+ * were queued, except that a task for a busy host does not hold up tasks for
+ * other hosts. The scheduler is shared by every batch, job and monitor run.
+ */
+@Injectable()
+export class HostSchedulerService {
+  private readonly logger = new Logger(HostSchedulerService.name);
+  private readonly options: HostSchedulerOptions;
+  private readonly queue: QueuedTask[] = [];
+  private readonly hosts = new Map<string, HostState>();
+  private active = 0;
+  private wakeUpTimer: NodeJS.Timeout | null = null;
+  private wakeUpAt = Infinity;
+
+  constructor(
+    private readonly metricsService: MetricsService,
+    @Optional() @Inject(HOST_SCHEDULER_OPTIONS) options?: Partial<HostSchedulerOptions>,
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Runs `task` once the host of `url` has a free slot.
+   */
+  schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const host = this.getHost(url);
+
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        host,
+        enqueuedAt: Date.now(),
+        start: () => {
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => this.release(host));
+        },
+      });
+
+      this.metricsService.setFetchQueueDepth(this.queue.length);
+      this.drain();
+    });
+  }
+
+  private drain(): void {
+    const now = Date.now();
+    let nextReadyAt = Infinity;
+
+    for (let index = 0; index < this.queue.length && this.active < this.options.maxConcurrency; ) {
+      const task = this.queue[index];
+      const state = this.hosts.get(task.host) || { active: 0, lastStartedAt: -Infinity };
+
+      if (state.active >= this.options.maxConcurrencyPerHost) {
+        index++;
+        continue;
+      }
+
+      const readyAt = state.lastStartedAt + this.options.hostDelayMs;
+      if (readyAt > now) {
+        nextReadyAt = Math.min(nextReadyAt, readyAt);
+        index++;
+        continue;
+      }
+
+      this.queue.splice(index, 1);
+      state.active++;
+      state.lastStartedAt = now;
+      this.hosts.set(task.host, state);
+      this.active++;
+
+      const waitMs = now - task.enqueuedAt;
+      this.metricsService.recordFetchQueueWait(waitMs);
+      if (waitMs > 0) {
+        this.logger.debug(`Starting fetch for ${task.host} after waiting ${waitMs}ms`);
+      }
+
+      task.start();
+    }
+
+    this.metricsService.setFetchQueueDepth(this.queue.length);
+
+    // Tasks held back only by the politeness delay need a wake-up, since no running task may finish before then
+    if (nextReadyAt < this.wakeUpAt) {
+      clearTimeout(this.wakeUpTimer);
+      this.wakeUpAt = nextReadyAt;
+      this.wakeUpTimer = setTimeout(() => {
+        this.wakeUpTimer = null;
+        this.wakeUpAt = Infinity;
+        this.drain();
+      }, nextReadyAt - now);
+    }
+  }
+
+  private release(host: string): void {
+    const state = this.hosts.get(host);
+    state.active--;
+    this.active--;
+
+    // Forget idle hosts once their delay has passed, so the map does not grow without bound
+    if (state.active === 0 && Date.now() - state.lastStartedAt >= this.options.hostDelayMs) {
+      this.hosts.delete(host);
+    }
+
+    this.drain();
+  }
+
+  private getHost(url: string): string {
+    try {
+      return new URL(url).host.toLowerCase();
+    } catch {
+      return url;
+    }
+  }
+}
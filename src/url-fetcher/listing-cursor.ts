@@ -0,0 +1,54 @@
+export type CursorDirection = 'next' | 'prev';
+
+/**
+ * A position in the listing, which is ordered by `(fetched_at, id)` newest
+ * first. `fetchedAt` keeps the microseconds Postgres stores, which a Date
+ * would lose, so rows fetched in the same millisecond are neither skipped nor
+ * repeated.
+ */
+export interface ListingCursor {
+  fetchedAt: string;
+  id: number;
+  // `next` continues with older rows, `prev` goes back to newer ones
+  direction: CursorDirection;
+}
+
+const FETCHED_AT_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}Z$/;
+
+/**
+ * Encodes a cursor as an opaque base64url token, so clients pass it back
+ * without depending on what is inside. The token is not signed: a client can
+ * build its own, which only moves it to another position in the listing.
+ */
+export function encodeCursor(cursor: ListingCursor): string {
+  const { fetchedAt, id, direction } = cursor;
+  return Buffer.from(JSON.stringify([fetchedAt, id, direction])).toString('base64url');
+}
+
+/**
+ * Decodes a token made by encodeCursor. Returns null for malformed tokens,
+ * such as ones that are not base64url JSON or hold values of the wrong type.
+ */
+export function decodeCursor(token: string): ListingCursor | null {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 3) {
+    return null;
+  }
+
+  const [fetchedAt, id, direction] = decoded;
+  if (
+    typeof fetchedAt !== 'string' || !FETCHED_AT_PATTERN.test(fetchedAt) ||
+    !Number.isSafeInteger(id) || id < 1 ||
+    (direction !== 'next' && direction !== 'prev')
+  ) {
+    return null;
+  }
+
+  return { fetchedAt, id, direction };
+}
@@ -1,7 +1,14 @@
-import { Controller, Post, Get, Body, HttpStatus, HttpCode, Param, Query, BadRequestException } from '@nestjs/common';
-import { UrlFetcherService } from './url-fetcher.service';
+import { Controller, Post, Get, Body, HttpStatus, HttpCode, Param, Query, Res, BadRequestException, NotFoundException, StreamableFile } from '@nestjs/common';
+import { Response } from 'express';
+import { UrlFetcherService, UrlFetchDiff, UrlFetchItem } from './url-fetcher.service';
+import { FetchJobsService } from './fetch-jobs.service';
 import { CreateUrlFetchDto } from './dto/create-url-fetch.dto';
-import { UrlFetch } from './entities/url-fetch.entity';
+import { URL_FETCH_FIELDS, UrlFetch, UrlFetchField } from './entities/url-fetch.entity';
+import { FetchJob } from './entities/fetch-job.entity';
+import { UrlFetchHistory } from './entities/url-fetch-history.entity';
+import { FetchAttempt } from './entities/fetch-attempt.entity';
+import { FETCH_ERROR_CODES, FetchErrorCode } from '../integrations/http/fetch-error';
+import { decodeCursor } from './listing-cursor';
 
 export interface PaginationQuery {
   page?: string;
@@ -10,6 +17,19 @@ export interface PaginationQuery {
   url?: string;
   startDate?: string;
   endDate?: string;
+  changed?: string;
+  finalHost?: string;
+  errorCode?: string;
+  q?: string;
+  cursor?: string;
+  includeTotal?: string;
+  fields?: string;
+  bodyPreview?: string;
+}
+
+export interface HistoryQuery {
+  url?: string;
+  limit?: string;
 }
 
 export interface PaginatedResponse<T> {
@@ -17,26 +37,80 @@ export interface PaginatedResponse<T> {
   data: T[];
   count: number;
   pagination: {
-    page: number;
+    page: number | null;
     limit: number;
-    totalPages: number;
-    totalItems: number;
+    totalPages: number | null;
+    totalItems: number | null;
+    // Opaque cursors for the pages after and before this one, null at either end
+    next: string | null;
+    prev: string | null;
   };
 }
 
 @Controller('url-fetches')
 export class UrlFetcherController {
-  constructor(private readonly urlFetcherService: UrlFetcherService) {}
+  constructor(
+    private readonly urlFetcherService: UrlFetcherService,
+    private readonly fetchJobsService: FetchJobsService,
+  ) {}
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
-  async createUrlFetches(@Body() createUrlFetchDto: CreateUrlFetchDto): Promise<{
+  async createUrlFetches(
+    @Body() createUrlFetchDto: CreateUrlFetchDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<{
     message: string;
     data: UrlFetch[];
     count: number;
     processingTime: number;
+  } | {
+    message: string;
+    data: UrlFetchItem[];
+    count: number;
+    acceptedCount: number;
+    rejectedCount: number;
+    processingTime: number;
+  } | {
+    message: string;
+    data: ReturnType<FetchJob['toJSON']>;
+    statusUrl: string;
   }> {
+    if (createUrlFetchDto.async) {
+      const job = await this.fetchJobsService.createJob(createUrlFetchDto);
+      res.status(HttpStatus.ACCEPTED);
+
+      // Right after creation, the only failed items are the ones rejected in partial mode
+      const message = createUrlFetchDto.partial
+        ? `Accepted fetch job for ${job.totalUrls - job.failedUrls} URLs, rejected ${job.failedUrls}`
+        : `Accepted fetch job for ${job.totalUrls} URLs`;
+
+      return {
+        message,
+        data: job.toJSON(),
+        statusUrl: `/v1/fetch-jobs/${job.id}`,
+      };
+    }
+
     const startTime = Date.now();
+
+    // Accepted and rejected URLs are reported per item, with a 207 for the whole response
+    if (createUrlFetchDto.partial) {
+      const items = await this.urlFetcherService.fetchUrlsPartially(createUrlFetchDto);
+      const rejectedCount = items.filter(item => item.status === HttpStatus.BAD_REQUEST).length;
+      // 207 Multi-Status, which HttpStatus does not define
+      res.status(207);
+
+      return {
+        message: `Fetched ${items.length - rejectedCount} URLs, rejected ${rejectedCount}`,
+        data: items,
+        count: items.length,
+        acceptedCount: items.length - rejectedCount,
+        rejectedCount,
+        processingTime: Date.now() - startTime,
+      };
+    }
+
     const results = await this.urlFetcherService.fetchUrls(createUrlFetchDto);
     const processingTime = Date.now() - startTime;
     
@@ -57,6 +131,33 @@ export class UrlFetcherController {
     const url = query.url;
     const startDate = query.startDate ? new Date(query.startDate) : undefined;
     const endDate = query.endDate ? new Date(query.endDate) : undefined;
+    const changed = query.changed !== undefined ? query.changed === 'true' : undefined;
+    const finalHost = query.finalHost;
+    const q = query.q?.trim() || undefined;
+    const errorCodes = query.errorCode?.split(',').map(code => code.trim()).filter(Boolean);
+    const unknownCode = errorCodes?.find(code => !(FETCH_ERROR_CODES as readonly string[]).includes(code));
+    if (unknownCode) {
+      throw new BadRequestException(`Unknown error code '${unknownCode}', expected one of: ${FETCH_ERROR_CODES.join(', ')}`);
+    }
+
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+    if (cursor === null) {
+      throw new BadRequestException('Invalid cursor');
+    }
+    if (cursor && q) {
+      throw new BadRequestException('Search results are ranked and cannot be paged by cursor, use page instead');
+    }
+    const includeTotal = query.includeTotal !== 'false';
+
+    const fields = query.fields?.split(',').map(field => field.trim()).filter(Boolean);
+    const unknownField = fields?.find(field => !(URL_FETCH_FIELDS as string[]).includes(field));
+    if (unknownField) {
+      throw new BadRequestException(`Unknown field '${unknownField}', expected any of: ${URL_FETCH_FIELDS.join(', ')}`);
+    }
+    const bodyPreview = query.bodyPreview !== undefined ? Number(query.bodyPreview) : undefined;
+    if (bodyPreview !== undefined && !(Number.isInteger(bodyPreview) && bodyPreview >= 0)) {
+      throw new BadRequestException('bodyPreview must be a non-negative integer');
+    }
 
     const results = await this.urlFetcherService.getUrlFetchesWithPagination({
       page,
@@ -65,6 +166,14 @@ export class UrlFetcherController {
       url,
       startDate,
       endDate,
+      changed,
+      finalHost,
+      errorCodes: errorCodes as FetchErrorCode[],
+      q,
+      cursor,
+      includeTotal,
+      fields: fields?.length ? fields as UrlFetchField[] : undefined,
+      bodyPreview,
     });
     
     return {
@@ -76,10 +185,99 @@ export class UrlFetcherController {
         limit: results.limit,
         totalPages: results.totalPages,
         totalItems: results.totalItems,
+        next: results.nextCursor,
+        prev: results.prevCursor,
       },
     };
   }
 
+  @Get('history')
+  @HttpCode(HttpStatus.OK)
+  async getUrlFetchHistory(@Query() query: HistoryQuery): Promise<{
+    message: string;
+    data: UrlFetchHistory[];
+    count: number;
+  }> {
+    if (!query.url) {
+      throw new BadRequestException('The url query parameter is required.');
+    }
+
+    const limit = Math.min(parseInt(query.limit) || 50, 100);
+    const results = await this.urlFetcherService.getUrlFetchesByUrl(query.url, limit);
+
+    return {
+      message: 'Successfully retrieved URL fetch history',
+      data: results,
+      count: results.length,
+    };
+  }
+
+  @Get(':id/diff')
+  @HttpCode(HttpStatus.OK)
+  async getUrlFetchDiff(@Param('id') id: string, @Query('against') against?: string): Promise<{
+    message: string;
+    data: UrlFetchDiff | null;
+  }> {
+    const parsedId = parseInt(id);
+    const parsedAgainst = against !== undefined ? parseInt(against) : undefined;
+    if (isNaN(parsedId) || (parsedAgainst !== undefined && isNaN(parsedAgainst))) {
+      throw new BadRequestException('Invalid ID format. ID must be a valid integer.');
+    }
+
+    const result = await this.urlFetcherService.getUrlFetchDiff(parsedId, parsedAgainst);
+
+    return {
+      message: result ? 'URL fetch diff computed' : 'URL fetch not found',
+      data: result,
+    };
+  }
+
+  @Get(':id/attempts')
+  @HttpCode(HttpStatus.OK)
+  async getFetchAttempts(@Param('id') id: string, @Query('limit') limit?: string): Promise<{
+    message: string;
+    data: FetchAttempt[];
+    count: number;
+  }> {
+    const parsedId = parseInt(id);
+    if (isNaN(parsedId)) {
+      throw new BadRequestException('Invalid ID format. ID must be a valid integer.');
+    }
+
+    const results = await this.urlFetcherService.getFetchAttempts(parsedId, Math.min(parseInt(limit) || 50, 100));
+
+    return {
+      message: 'Successfully retrieved fetch attempts',
+      data: results,
+      count: results.length,
+    };
+  }
+
+  @Get(':id/body')
+  @HttpCode(HttpStatus.OK)
+  async getUrlFetchBody(@Param('id') id: string, @Res({ passthrough: true }) res: Response): Promise<StreamableFile> {
+    const parsedId = parseInt(id);
+    if (isNaN(parsedId)) {
+      throw new BadRequestException('Invalid ID format. ID must be a valid integer.');
+    }
+
+    const result = await this.urlFetcherService.getUrlFetchBody(parsedId);
+    if (!result) {
+      throw new NotFoundException(`URL fetch ${parsedId} not found`);
+    }
+
+    // Fetched content is served from this origin, so browsers must not run or re-interpret it
+    res.set({
+      'Content-Security-Policy': 'sandbox',
+      'X-Content-Type-Options': 'nosniff',
+    });
+
+    return new StreamableFile(result.body, {
+      type: result.contentType || 'application/octet-stream',
+      length: result.body.length,
+    });
+  }
+
   @Get(':id')
   @HttpCode(HttpStatus.OK)
   async getUrlFetchById(@Param('id') id: string): Promise<{
@@ -1,17 +1,52 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
 import { UrlFetcherController } from './url-fetcher.controller';
 import { UrlFetcherService } from './url-fetcher.service';
+import { FetchJobsController } from './fetch-jobs.controller';
+import { FetchJobsService } from './fetch-jobs.service';
+import { FetchEventsService } from './fetch-events.service';
+import { HostSchedulerService } from './host-scheduler.service';
+import { FetchCacheService } from './fetch-cache.service';
 import { UrlFetch } from './entities/url-fetch.entity';
-import { HttpService } from '../integrations/http/http.service';
+import { CREDENTIAL_RESOLVER, HttpService } from '../integrations/http/http.service';
+import { RobotsService } from '../integrations/http/robots.service';
 import { PostgresService } from '../integrations/postgres/postgres.service';
 import { SecurityService } from '../integrations/security/security.service';
 import { MetricsService } from '../metrics/metrics.service';
+import { BLOB_STORE, createBlobStore } from '../integrations/blob-store/blob-store';
+import { CACHE_STORE, createCacheStore } from '../integrations/cache-store/cache-store';
+import { CredentialsService } from '../credentials/credentials.service';
 
 @Module({
   imports: [TypeOrmModule.forFeature([UrlFetch])],
-  controllers: [UrlFetcherController],
-  providers: [UrlFetcherService, HttpService, PostgresService, SecurityService, MetricsService],
-  exports: [UrlFetcherService],
+  controllers: [UrlFetcherController, FetchJobsController],
+  providers: [
+    UrlFetcherService,
+    FetchJobsService,
+    FetchEventsService,
+    HostSchedulerService,
+    FetchCacheService,
+    HttpService,
+    RobotsService,
+    PostgresService,
+    SecurityService,
+    MetricsService,
+    CredentialsService,
+    {
+      provide: CREDENTIAL_RESOLVER,
+      useExisting: CredentialsService,
+    },
+    {
+      provide: BLOB_STORE,
+      useFactory: (dataSource: DataSource) => createBlobStore(dataSource),
+      inject: [DataSource],
+    },
+    {
+      provide: CACHE_STORE,
+      useFactory: () => createCacheStore(),
+    },
+  ],
+  exports: [UrlFetcherService, FetchEventsService, HttpService, RobotsService, PostgresService, SecurityService, CredentialsService],
 })
 export class UrlFetcherModule {} 
\ No newline at end of file
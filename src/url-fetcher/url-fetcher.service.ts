@@ -1,9 +1,49 @@
-import { Injectable, Logger, BadRequestException, ServiceUnavailableException } from '@nestjs/common';
-import { HttpService } from '../integrations/http/http.service';
+import { Injectable, Logger, BadRequestException, NotFoundException, ServiceUnavailableException, Inject, HttpStatus } from '@nestjs/common';
+import { HttpService, FetchOptions, FetchResult } from '../integrations/http/http.service';
+import { FetchErrorCode } from '../integrations/http/fetch-error';
 import { PostgresService } from '../integrations/postgres/postgres.service';
 import { SecurityService } from '../integrations/security/security.service';
-import { CreateUrlFetchDto } from './dto/create-url-fetch.dto';
-import { UrlFetch } from './entities/url-fetch.entity';
+import { FetchEventsService } from './fetch-events.service';
+import { HostSchedulerService } from './host-scheduler.service';
+import { FetchCacheService, StoredUrlFetch } from './fetch-cache.service';
+import { CreateUrlFetchDto, UrlFetchEntry } from './dto/create-url-fetch.dto';
+import { UrlFetch, UrlFetchField } from './entities/url-fetch.entity';
+import { UrlFetchHistory } from './entities/url-fetch-history.entity';
+import { FetchAttempt } from './entities/fetch-attempt.entity';
+import { HeadersDiff, diffBodies, diffHeaders, hashContent } from './content-diff';
+import { ListingCursor } from './listing-cursor';
+import { BLOB_STORE, BlobStore } from '../integrations/blob-store/blob-store';
+
+export interface UrlFetchRequest {
+  url: string;
+  options: FetchOptions;
+}
+
+export interface RejectedUrl {
+  url: string;
+  error: string;
+}
+
+/**
+ * One unique `urls` entry after security validation: either the request to
+ * fetch, or the error it was rejected with. `url` is the URL as submitted.
+ */
+export interface ValidatedUrlFetchEntry {
+  url: string;
+  request?: UrlFetchRequest;
+  error?: string;
+}
+
+/**
+ * One item of a partial-mode response. `status` is the HTTP status the item
+ * would have had on its own: 201 when stored, 400 when rejected.
+ */
+export interface UrlFetchItem {
+  url: string;
+  status: number;
+  data?: UrlFetch;
+  error?: string;
+}
 
 export interface PaginationOptions {
   page: number;
@@ -12,14 +52,55 @@ export interface PaginationOptions {
   url?: string;
   startDate?: Date;
   endDate?: Date;
+  changed?: boolean;
+  // Host the fetch ended on after redirects
+  finalHost?: string;
+  // Any of these error codes
+  errorCodes?: FetchErrorCode[];
+  // Full-text search over the response body
+  q?: string;
+  // Continues from a cursor instead of going by page
+  cursor?: ListingCursor;
+  // Skips counting the matching rows, which is the slow part on large tables
+  includeTotal?: boolean;
+  // Fields to return instead of all of them; the id is always returned
+  fields?: UrlFetchField[];
+  // Cuts response bodies to this many characters
+  bodyPreview?: number;
 }
 
 export interface PaginatedResult<T> {
   data: T[];
-  page: number;
+  // Null when paging by cursor
+  page: number | null;
   limit: number;
-  totalPages: number;
-  totalItems: number;
+  // Null when the total was not counted
+  totalPages: number | null;
+  totalItems: number | null;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export interface UrlFetchDiffSide {
+  history_id: number;
+  url: string;
+  response_status: number;
+  content_hash: string;
+  fetched_at: Date;
+}
+
+export interface UrlFetchDiff {
+  from: UrlFetchDiffSide;
+  to: UrlFetchDiffSide;
+  changed: boolean;
+  // Null when either side is binary
+  body_diff: string | null;
+  headers_diff: HeadersDiff;
+}
+
+export interface UrlFetchBody {
+  contentType: string | null;
+  body: Buffer;
 }
 
 @Injectable()
@@ -30,94 +111,218 @@ export class UrlFetcherService {
     private readonly httpService: HttpService,
     private readonly postgresService: PostgresService,
     private readonly securityService: SecurityService,
+    private readonly fetchEventsService: FetchEventsService,
+    private readonly hostScheduler: HostSchedulerService,
+    @Inject(BLOB_STORE) private readonly blobStore: BlobStore,
+    private readonly fetchCache: FetchCacheService,
   ) {}
 
   async fetchUrls(createUrlFetchDto: CreateUrlFetchDto): Promise<UrlFetch[]> {
     this.logger.log(`Starting to fetch ${createUrlFetchDto.urls.length} URLs in parallel`);
 
-    // Remove duplicates while preserving order
-    const uniqueUrls = [...new Set(createUrlFetchDto.urls)];
-    
-    if (uniqueUrls.length !== createUrlFetchDto.urls.length) {
-      const duplicateCount = createUrlFetchDto.urls.length - uniqueUrls.length;
-      this.logger.log(`Removed ${duplicateCount} duplicate URLs. Processing ${uniqueUrls.length} unique URLs`);
+    try {
+      return await this.fetchRequests(this.validateRequests(createUrlFetchDto.urls));
+    } catch (error) {
+      this.logger.error('Error in fetchUrls:', error);
+      
+      throw error;
     }
+  }
 
-    try {
-      const { validUrls, invalidUrls } = this.securityService.validateUrls(uniqueUrls);
-
-      if (invalidUrls.length > 0) {
-        const errorMessage = `Invalid URLs detected: ${invalidUrls.map(item => `${item.url} (${item.error})`).join(', ')}`;
-        this.logger.warn(`URL validation failed for some URLs: ${errorMessage}`);
-        throw new BadRequestException({
-          message: 'Some URLs failed security validation',
-          invalidUrls,
-          validUrlsCount: validUrls.length,
-          invalidUrlsCount: invalidUrls.length,
-        });
+  /**
+   * Partial mode of fetchUrls: URLs that fail security validation are returned
+   * as rejected items instead of failing the batch, and the rest are fetched
+   * and stored. Items keep the order of the request.
+   */
+  async fetchUrlsPartially(createUrlFetchDto: CreateUrlFetchDto): Promise<UrlFetchItem[]> {
+    this.logger.log(`Starting to fetch ${createUrlFetchDto.urls.length} URLs in parallel, rejecting invalid ones individually`);
+
+    const entries = this.partitionRequests(createUrlFetchDto.urls);
+    const requests = entries.filter(entry => entry.request).map(entry => entry.request);
+    const results = requests.length > 0 ? await this.fetchRequests(requests) : [];
+    const resultsByUrl = new Map(results.map(result => [result.url, result]));
+
+    return entries.map(({ url, request, error }) => {
+      if (!request) {
+        return { url, status: HttpStatus.BAD_REQUEST, error };
       }
 
-      if (validUrls.length === 0) {
-        throw new BadRequestException('No valid URLs provided after security validation');
+      const data = resultsByUrl.get(request.url);
+      return data
+        ? { url, status: HttpStatus.CREATED, data }
+        : { url, status: HttpStatus.INTERNAL_SERVER_ERROR, error: 'The fetch result was not stored' };
+    });
+  }
+
+  /**
+   * Fetches validated requests and stores the results. Results keep the order
+   * of the requests, cached ones included.
+   */
+  private async fetchRequests(requests: UrlFetchRequest[]): Promise<UrlFetch[]> {
+    // Fresh results of earlier fetches are reused instead of fetching again
+    const cachedResults = new Map<string, StoredUrlFetch>();
+    for (const { url, options } of requests) {
+      const cached = await this.fetchCache.lookup(url, options);
+      if (cached) {
+        cachedResults.set(url, cached);
       }
+    }
+    const pendingRequests = requests.filter(({ url }) => !cachedResults.has(url));
 
-      this.logger.log(`Proceeding with ${validUrls.length} validated URLs`);
+    this.logger.log(`Proceeding with ${pendingRequests.length} validated URLs, ${cachedResults.size} served from cache`);
 
-      const fetchPromises = validUrls.map(async (url) => {
-        try {
-          const result = await this.httpService.fetchUrl(url);
-          this.logger.log(`Successfully fetched: ${url}`);
-          return result;
-        } catch (error) {
-          this.logger.error(`Failed to fetch ${url}:`, error);
-          return {
-            url,
-            error: error.message,
-          };
-        }
-      });
+    // Stored ETag and Last-Modified values turn re-fetches into conditional requests
+    const validators = await this.postgresService.getConditionalValidators(
+      pendingRequests.filter(({ options }) => (options?.method || 'GET') === 'GET').map(({ url }) => url),
+    );
 
-      const fetchResults = await Promise.allSettled(fetchPromises);
-      
-      const successfulResults = fetchResults
-        .map((result, index) => {
-          if (result.status === 'fulfilled') {
-            return result.value;
-          } else {
-            this.logger.error(`Promise rejected for URL ${validUrls[index]}:`, result.reason);
-            return {
-              url: validUrls[index],
-              error: result.reason.message,
-            };
-          }
-        })
-        .filter(result => result !== null);
-
-      const sanitizedResults = successfulResults.map(result => {
-        if ('error' in result) {
-          // This is an error result, no sanitization needed
-          return result;
+    // Requests are queued per host, so a batch on one domain does not hammer it
+    const fetchPromises = pendingRequests.map(async ({ url, options }) => {
+      const fetchOptions = validators.has(url) ? { ...options, conditional: validators.get(url) } : options;
+
+      try {
+        const result = await this.hostScheduler.schedule(url, () => this.httpService.fetchUrl(url, fetchOptions));
+        this.logger.log(`Successfully fetched: ${url}`);
+        return result;
+      } catch (error) {
+        this.logger.error(`Failed to fetch ${url}:`, error);
+        return {
+          url,
+          error: error.message,
+          errorCode: 'internal_error' as const,
+        };
+      }
+    });
+
+    const fetchResults = await Promise.allSettled(fetchPromises);
+    
+    const successfulResults = fetchResults
+      .map((result, index) => {
+        if (result.status === 'fulfilled') {
+          return result.value;
         } else {
-          // This is a successful result, sanitize the data
+          this.logger.error(`Promise rejected for URL ${pendingRequests[index].url}:`, result.reason);
           return {
-            ...result,
-            responseHeaders: this.securityService.sanitizeData(result.responseHeaders) as Record<string, unknown>,
-            responseBody: this.securityService.sanitizeData(result.responseBody) as string,
-            contentType: this.securityService.sanitizeData(result.contentType) as string,
+            url: pendingRequests[index].url,
+            error: result.reason.message,
+            errorCode: 'internal_error' as const,
           };
         }
+      })
+      .filter(result => result !== null);
+
+    const sanitizedResults = successfulResults.map(result => {
+      // Request options are stored with every result, so credentials are redacted first
+      const requestOptions = 'requestOptions' in result && result.requestOptions
+        ? { ...result.requestOptions, headers: this.securityService.redactHeaders(result.requestOptions.headers) }
+        : undefined;
+
+      if ('error' in result) {
+        // This is an error result, no sanitization needed
+        return { ...result, requestOptions };
+      } else {
+        // This is a successful result, sanitize the data. Binary bodies are stored byte-for-byte.
+        return {
+          ...result,
+          responseHeaders: this.securityService.sanitizeData(result.responseHeaders) as Record<string, unknown>,
+          responseBody: result.isBinary ? undefined : this.securityService.sanitizeBody(result.responseBody),
+          contentType: this.securityService.sanitizeData(result.contentType) as string,
+          requestOptions,
+        };
+      }
+    });
+
+    await this.storeBinaryBodies(sanitizedResults);
+
+    const savedResults = sanitizedResults.length > 0
+      ? await this.postgresService.saveFetchResults(sanitizedResults)
+      : [];
+
+    // saveFetchResults returns rows in their serialized (toJSON) form
+    const storedResults = savedResults as unknown as StoredUrlFetch[];
+    const optionsByUrl = new Map(requests.map(({ url, options }) => [url, options]));
+    for (const saved of storedResults) {
+      this.fetchEventsService.publishStoredFetch(saved);
+      await this.fetchCache.store(saved.url, optionsByUrl.get(saved.url) || {}, saved);
+    }
+
+    this.logger.log(`Successfully processed ${savedResults.length} URLs out of ${requests.length} validated URLs`);
+
+    // Results keep the order of the request, cached ones included
+    const savedByUrl = new Map(storedResults.map(saved => [saved.url, saved]));
+    const results = [...new Set(requests.map(({ url }) => url))]
+      .filter(url => cachedResults.has(url) || savedByUrl.has(url))
+      .map(url => cachedResults.has(url)
+        ? { ...cachedResults.get(url), cache_hit: true }
+        : { ...savedByUrl.get(url), cache_hit: false });
+    
+    return results as unknown as UrlFetch[];
+  }
+
+  /**
+   * Removes duplicates and runs security validation on a batch of URLs.
+   * Throws BadRequestException if any URL is rejected.
+   */
+  validateUrls(urls: string[]): string[] {
+    return this.validateRequests(urls).map(request => request.url);
+  }
+
+  /**
+   * Normalizes `urls` entries into URL + fetch options, removes duplicate URLs
+   * (the first entry wins) and runs security validation.
+   * Throws BadRequestException if any URL is rejected.
+   */
+  validateRequests(entries: UrlFetchEntry[]): UrlFetchRequest[] {
+    const validated = this.partitionRequests(entries);
+    const invalidUrls = validated.filter(entry => !entry.request).map(({ url, error }) => ({ url, error }));
+
+    if (invalidUrls.length > 0) {
+      const errorMessage = `Invalid URLs detected: ${invalidUrls.map(item => `${item.url} (${item.error})`).join(', ')}`;
+      this.logger.warn(`URL validation failed for some URLs: ${errorMessage}`);
+      throw new BadRequestException({
+        message: 'Some URLs failed security validation',
+        invalidUrls,
+        validUrlsCount: validated.length - invalidUrls.length,
+        invalidUrlsCount: invalidUrls.length,
       });
+    }
 
-      const savedResults = await this.postgresService.saveFetchResults(sanitizedResults);
+    if (validated.length === 0) {
+      throw new BadRequestException('No valid URLs provided after security validation');
+    }
 
-      this.logger.log(`Successfully processed ${savedResults.length} URLs out of ${validUrls.length} validated URLs`);
-      
-      return savedResults;
-    } catch (error) {
-      this.logger.error('Error in fetchUrls:', error);
-      
-      throw error;
+    return validated.map(entry => entry.request);
+  }
+
+  /**
+   * Like validateRequests, but returns every unique entry with either its
+   * request or the reason it was rejected, instead of throwing.
+   */
+  partitionRequests(entries: UrlFetchEntry[]): ValidatedUrlFetchEntry[] {
+    const requestsByUrl = new Map<string, FetchOptions>();
+    for (const entry of entries) {
+      const { url, ...options } = typeof entry === 'string' ? { url: entry } : entry;
+      // Remove duplicates while preserving order
+      if (!requestsByUrl.has(url)) {
+        requestsByUrl.set(url, options);
+      }
     }
+
+    const uniqueUrls = [...requestsByUrl.keys()];
+    
+    if (uniqueUrls.length !== entries.length) {
+      const duplicateCount = entries.length - uniqueUrls.length;
+      this.logger.log(`Removed ${duplicateCount} duplicate URLs. Processing ${uniqueUrls.length} unique URLs`);
+    }
+
+    const { validUrls, invalidUrls } = this.securityService.validateUrls(uniqueUrls);
+    const errorsByUrl = new Map(invalidUrls.map(({ url, error }) => [url, error]));
+
+    // validUrls holds the sanitized form of every URL that was not rejected, in order
+    const sanitizedUrls = [...validUrls];
+    return uniqueUrls.map(url => errorsByUrl.has(url)
+      ? { url, error: errorsByUrl.get(url) }
+      : { url, request: { url: sanitizedUrls.shift(), options: requestsByUrl.get(url) } });
   }
 
   async getAllUrlFetches(): Promise<UrlFetch[]> {
@@ -147,8 +352,105 @@ export class UrlFetcherService {
     }
   }
 
-  async getUrlFetchesByUrl(url: string): Promise<UrlFetch[]> {
-    this.logger.log(`Retrieving URL fetches for: ${url}`);
-    return this.postgresService.getUrlFetchesByUrl(url);
+  /**
+   * The stored body of a fetch as bytes: binary bodies come from the blob
+   * store, text bodies are encoded as UTF-8. Returns null for unknown ids.
+   */
+  async getUrlFetchBody(id: number): Promise<UrlFetchBody | null> {
+    this.logger.log(`Retrieving body of URL fetch ${id}`);
+
+    // getUrlFetchById returns the row in its serialized (toJSON) form
+    const urlFetch = await this.postgresService.getUrlFetchById(id) as unknown as ReturnType<UrlFetch['toJSON']>;
+    if (!urlFetch) {
+      return null;
+    }
+
+    let body: Buffer | null = null;
+    if (urlFetch.is_binary) {
+      body = urlFetch.content_hash ? await this.blobStore.get(urlFetch.content_hash) : null;
+    } else if (urlFetch.response_body !== null && urlFetch.response_body !== undefined) {
+      body = Buffer.from(urlFetch.response_body, 'utf8');
+    }
+
+    if (!body) {
+      throw new NotFoundException(`URL fetch ${id} has no stored body`);
+    }
+
+    return { contentType: urlFetch.content_type ?? null, body };
+  }
+
+  async getFetchAttempts(id: number, limit: number): Promise<FetchAttempt[]> {
+    this.logger.log(`Retrieving attempts of URL fetch ${id}`);
+    return this.postgresService.getFetchAttempts(id, limit);
+  }
+
+  async getUrlFetchesByUrl(url: string, limit?: number): Promise<UrlFetchHistory[]> {
+    try {
+      this.logger.log(`Retrieving URL fetch history for: ${url}`);
+      return await this.postgresService.getUrlFetchesByUrl(url, limit);
+    } catch (error) {
+      this.logger.error(`Error in getUrlFetchesByUrl for ${url}:`, error);
+
+      throw error;
+    }
+  }
+
+  /**
+   * Diffs the latest stored fetch of a URL against an earlier history entry.
+   * Without `againstHistoryId` the previous fetch of the same URL is used.
+   * Returns null when the URL fetch does not exist.
+   */
+  async getUrlFetchDiff(id: number, againstHistoryId?: number): Promise<UrlFetchDiff | null> {
+    this.logger.log(`Computing diff for URL fetch ${id}${againstHistoryId ? ` against history entry ${againstHistoryId}` : ''}`);
+
+    const [latest, previous] = await this.postgresService.getRecentHistoryForUrlFetch(id, 2);
+    if (!latest) {
+      return null;
+    }
+
+    let against = previous;
+    if (againstHistoryId !== undefined) {
+      against = await this.postgresService.getUrlFetchHistoryEntry(againstHistoryId);
+      // An entry of another URL is treated as missing rather than diffed against an unrelated page
+      if (!against || against.urlFetchId !== id) {
+        throw new NotFoundException(`URL fetch history entry ${againstHistoryId} not found for URL fetch ${id}`);
+      }
+    } else if (!against) {
+      throw new BadRequestException(`URL fetch ${id} has no earlier fetch to compare against`);
+    }
+
+    return {
+      from: this.toDiffSide(against),
+      to: this.toDiffSide(latest),
+      changed: against.contentHash !== latest.contentHash,
+      body_diff: against.isBinary || latest.isBinary ? null : diffBodies(
+        `${against.url} @ ${new Date(against.fetchedAt).toISOString()}`,
+        against.responseBody,
+        `${latest.url} @ ${new Date(latest.fetchedAt).toISOString()}`,
+        latest.responseBody,
+      ),
+      headers_diff: diffHeaders(against.responseHeaders, latest.responseHeaders),
+    };
+  }
+
+  /**
+   * Writes binary bodies to the blob store before the rows that point at them are saved.
+   */
+  private async storeBinaryBodies(results: FetchResult[]): Promise<void> {
+    for (const result of results) {
+      if (result.responseBytes) {
+        await this.blobStore.put(hashContent(result.responseBytes), result.responseBytes);
+      }
+    }
   }
-}
\ No newline at end of file
+
+  private toDiffSide(entry: UrlFetchHistory): UrlFetchDiffSide {
+    return {
+      history_id: entry.id,
+      url: entry.url,
+      response_status: entry.responseStatus,
+      content_hash: entry.contentHash,
+      fetched_at: entry.fetchedAt,
+    };
+  }
+}
@@ -0,0 +1,20 @@
+import { IsArray, IsString, IsIn, IsOptional, IsBoolean, ArrayMinSize, MinLength } from 'class-validator';
+import { WEBHOOK_EVENTS, WebhookEvent } from '../entities/webhook-subscription.entity';
+
+export class CreateWebhookDto {
+  @IsString({ message: 'targetUrl must be a string' })
+  targetUrl: string;
+
+  @IsArray()
+  @ArrayMinSize(1, { message: 'At least one event is required' })
+  @IsIn(WEBHOOK_EVENTS, { each: true, message: `Each event must be one of: ${WEBHOOK_EVENTS.join(', ')}` })
+  events: WebhookEvent[];
+
+  @IsString({ message: 'secret must be a string' })
+  @MinLength(16, { message: 'secret must be at least 16 characters long' })
+  secret: string;
+
+  @IsOptional()
+  @IsBoolean({ message: 'enabled must be a boolean' })
+  enabled?: boolean;
+}
@@ -0,0 +1,65 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { WebhookEvent } from './webhook-subscription.entity';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * One delivery attempt. A failed attempt that will be retried is followed by a
+ * new pending row with the next attempt number.
+ */
+@Entity('webhook_deliveries')
+@Index('idx_webhook_deliveries_subscription', ['subscriptionId', 'createdAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ name: 'subscription_id', type: 'int' })
+  subscriptionId: number;
+
+  @Column({ type: 'text' })
+  event: WebhookEvent;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, unknown>;
+
+  @Column({ type: 'int' })
+  attempt: number;
+
+  @Column({ type: 'text', default: 'pending' })
+  status: WebhookDeliveryStatus;
+
+  @Column({ name: 'response_status', type: 'int', nullable: true })
+  responseStatus: number;
+
+  @Column({ type: 'text', nullable: true })
+  error: string;
+
+  @Column({ name: 'duration_ms', type: 'int', nullable: true })
+  durationMs: number;
+
+  @Column({ name: 'next_attempt_at', type: 'timestamptz', nullable: true })
+  nextAttemptAt: Date;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @Column({ name: 'delivered_at', type: 'timestamptz', nullable: true })
+  deliveredAt: Date;
+
+  toJSON() {
+    return {
+      id: this.id,
+      subscription_id: this.subscriptionId,
+      event: this.event,
+      payload: this.payload,
+      attempt: this.attempt,
+      status: this.status,
+      response_status: this.responseStatus,
+      error: this.error,
+      duration_ms: this.durationMs,
+      next_attempt_at: this.nextAttemptAt,
+      created_at: this.createdAt,
+      delivered_at: this.deliveredAt,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+export const WEBHOOK_EVENTS = ['fetch.completed', 'fetch.failed', 'fetch.status_changed'] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+@Entity('webhook_subscriptions')
+export class WebhookSubscription {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ name: 'target_url', type: 'text' })
+  targetUrl: string;
+
+  @Column({ type: 'jsonb' })
+  events: WebhookEvent[];
+
+  @Column({ type: 'text' })
+  secret: string;
+
+  @Column({ type: 'boolean', default: true })
+  enabled: boolean;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  /**
+   * The shared secret is write-only and never serialized.
+   */
+  toJSON() {
+    return {
+      id: this.id,
+      target_url: this.targetUrl,
+      events: this.events,
+      enabled: this.enabled,
+      created_at: this.createdAt,
+    };
+  }
+}
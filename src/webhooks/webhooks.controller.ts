@@ -0,0 +1,90 @@
+import { Controller, Post, Get, Delete, Body, HttpStatus, HttpCode, Param, Query, BadRequestException } from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createWebhook(@Body() createWebhookDto: CreateWebhookDto): Promise<{
+    message: string;
+    data: WebhookSubscription;
+  }> {
+    const subscription = await this.webhooksService.createSubscription(createWebhookDto);
+
+    return {
+      message: 'Webhook subscription created',
+      data: subscription,
+    };
+  }
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getWebhooks(): Promise<{
+    message: string;
+    data: WebhookSubscription[];
+    count: number;
+  }> {
+    const subscriptions = await this.webhooksService.getSubscriptions();
+
+    return {
+      message: 'Successfully retrieved webhook subscriptions',
+      data: subscriptions,
+      count: subscriptions.length,
+    };
+  }
+
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getWebhookById(@Param('id') id: string): Promise<{
+    message: string;
+    data: WebhookSubscription | null;
+  }> {
+    const subscription = await this.webhooksService.getSubscriptionById(this.parseId(id));
+
+    return {
+      message: subscription ? 'Webhook subscription found' : 'Webhook subscription not found',
+      data: subscription,
+    };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async deleteWebhook(@Param('id') id: string): Promise<{ message: string }> {
+    await this.webhooksService.deleteSubscription(this.parseId(id));
+
+    return {
+      message: 'Webhook subscription deleted',
+    };
+  }
+
+  @Get(':id/deliveries')
+  @HttpCode(HttpStatus.OK)
+  async getWebhookDeliveries(@Param('id') id: string, @Query('limit') limit?: string): Promise<{
+    message: string;
+    data: WebhookDelivery[];
+    count: number;
+  }> {
+    const parsedLimit = Math.min(parseInt(limit) || 50, 100);
+    const deliveries = await this.webhooksService.getDeliveries(this.parseId(id), parsedLimit);
+
+    return {
+      message: 'Successfully retrieved webhook deliveries',
+      data: deliveries,
+      count: deliveries.length,
+    };
+  }
+
+  private parseId(id: string): number {
+    const parsedId = parseInt(id);
+    if (isNaN(parsedId)) {
+      throw new BadRequestException('Invalid ID format. ID must be a valid integer.');
+    }
+
+    return parsedId;
+  }
+}
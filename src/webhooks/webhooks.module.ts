@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { UrlFetcherModule } from '../url-fetcher/url-fetcher.module';
+
+@Module({
+  imports: [UrlFetcherModule],
+  controllers: [WebhooksController],
+  providers: [WebhooksService],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,241 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { Subscription } from 'rxjs';
+import { HttpService } from '../integrations/http/http.service';
+import { PostgresService } from '../integrations/postgres/postgres.service';
+import { SecurityService } from '../integrations/security/security.service';
+import { FetchEventsService, StoredFetchEvent } from '../url-fetcher/fetch-events.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { WebhookSubscription, WebhookEvent } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_BASE_MS = 5000;
+const DEFAULT_RETRY_MAX_MS = 60 * 60 * 1000;
+const DEFAULT_RETRY_TICK_MS = 5000;
+const DUE_DELIVERIES_BATCH_SIZE = 50;
+
+@Injectable()
+export class WebhooksService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  private readonly maxAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS) || DEFAULT_MAX_ATTEMPTS;
+  private readonly retryBaseMs = parseInt(process.env.WEBHOOK_RETRY_BASE_MS) || DEFAULT_RETRY_BASE_MS;
+  private readonly retryMaxMs = parseInt(process.env.WEBHOOK_RETRY_MAX_MS) || DEFAULT_RETRY_MAX_MS;
+  private readonly retryTickMs = parseInt(process.env.WEBHOOK_RETRY_TICK_MS) || DEFAULT_RETRY_TICK_MS;
+
+  private fetchEventsSubscription: Subscription | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private retryTickInProgress = false;
+  private readonly inFlightDeliveryIds = new Set<number>();
+
+  constructor(
+    private readonly postgresService: PostgresService,
+    private readonly securityService: SecurityService,
+    private readonly httpService: HttpService,
+    private readonly fetchEventsService: FetchEventsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.fetchEventsSubscription = this.fetchEventsService.storedFetches$.subscribe(event => {
+      this.handleStoredFetch(event).catch(error => {
+        this.logger.error(`Failed to dispatch webhooks for ${event.urlFetch.url}:`, error);
+      });
+    });
+
+    this.retryTimer = setInterval(() => this.retryDueDeliveries(), this.retryTickMs);
+    this.retryTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    this.fetchEventsSubscription?.unsubscribe();
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  async createSubscription(createWebhookDto: CreateWebhookDto): Promise<WebhookSubscription> {
+    const validation = this.securityService.validateUrl(createWebhookDto.targetUrl);
+    if (!validation.isValid) {
+      throw new BadRequestException(`Webhook target URL failed security validation: ${validation.error}`);
+    }
+
+    const subscription = await this.postgresService.createWebhookSubscription({
+      targetUrl: validation.sanitizedUrl,
+      events: [...new Set(createWebhookDto.events)],
+      secret: createWebhookDto.secret,
+      enabled: createWebhookDto.enabled ?? true,
+    });
+
+    this.logger.log(`Created webhook subscription ${subscription.id} for ${subscription.targetUrl}`);
+    return subscription;
+  }
+
+  async getSubscriptions(): Promise<WebhookSubscription[]> {
+    this.logger.log('Retrieving all webhook subscriptions');
+    return this.postgresService.getWebhookSubscriptions();
+  }
+
+  async getSubscriptionById(id: number): Promise<WebhookSubscription | null> {
+    this.logger.log(`Retrieving webhook subscription with id: ${id}`);
+    return this.postgresService.getWebhookSubscriptionById(id);
+  }
+
+  async deleteSubscription(id: number): Promise<void> {
+    const existing = await this.postgresService.getWebhookSubscriptionById(id);
+    if (!existing) {
+      throw new NotFoundException(`Webhook subscription ${id} not found`);
+    }
+
+    await this.postgresService.deleteWebhookSubscription(id);
+    this.logger.log(`Deleted webhook subscription ${id}`);
+  }
+
+  async getDeliveries(subscriptionId: number, limit: number): Promise<WebhookDelivery[]> {
+    const existing = await this.postgresService.getWebhookSubscriptionById(subscriptionId);
+    if (!existing) {
+      throw new NotFoundException(`Webhook subscription ${subscriptionId} not found`);
+    }
+
+    return this.postgresService.getWebhookDeliveries(subscriptionId, limit);
+  }
+
+  /**
+   * Queues and attempts a delivery for every enabled subscription that
+   * listens to one of the events raised by a stored fetch.
+   */
+  async handleStoredFetch(event: StoredFetchEvent): Promise<void> {
+    const subscriptions = await this.postgresService.getWebhookSubscriptions(true);
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const events: WebhookEvent[] = [event.failed ? 'fetch.failed' : 'fetch.completed'];
+    const wantsStatusChanges = subscriptions.some(subscription => subscription.events.includes('fetch.status_changed'));
+    if (wantsStatusChanges && await this.hasStatusChanged(event)) {
+      events.push('fetch.status_changed');
+    }
+
+    for (const subscription of subscriptions) {
+      for (const webhookEvent of events.filter(name => subscription.events.includes(name))) {
+        const delivery = await this.postgresService.createWebhookDelivery({
+          subscriptionId: subscription.id,
+          event: webhookEvent,
+          payload: event.urlFetch,
+          attempt: 1,
+          nextAttemptAt: new Date(),
+        });
+        await this.deliver(delivery, subscription);
+      }
+    }
+  }
+
+  async retryDueDeliveries(): Promise<void> {
+    if (this.retryTickInProgress) {
+      return;
+    }
+
+    this.retryTickInProgress = true;
+    try {
+      const deliveries = await this.postgresService.getDueWebhookDeliveries(DUE_DELIVERIES_BATCH_SIZE);
+
+      for (const delivery of deliveries) {
+        const subscription = await this.postgresService.getWebhookSubscriptionById(delivery.subscriptionId);
+        if (subscription && !subscription.enabled) {
+          // Disabling a subscription also cancels the retries it still had queued
+          await this.postgresService.completeWebhookDelivery(delivery.id, {
+            status: 'failed',
+            error: 'Subscription is disabled',
+            durationMs: 0,
+          });
+          this.logger.log(`Cancelled webhook delivery ${delivery.id}: subscription ${subscription.id} is disabled`);
+        } else if (subscription) {
+          await this.deliver(delivery, subscription);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to retry webhook deliveries:', error);
+    } finally {
+      this.retryTickInProgress = false;
+    }
+  }
+
+  /**
+   * Signs the payload with HMAC-SHA256 over the exact request body.
+   */
+  sign(body: string, secret: string): string {
+    return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  private async deliver(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<void> {
+    if (this.inFlightDeliveryIds.has(delivery.id)) {
+      return;
+    }
+
+    this.inFlightDeliveryIds.add(delivery.id);
+    try {
+      const body = JSON.stringify(delivery.payload);
+      let result: { status?: number; error?: string; durationMs: number };
+
+      // Re-checked on every attempt in case the security rules changed since the subscription was created
+      const validation = this.securityService.validateUrl(subscription.targetUrl);
+      if (!validation.isValid) {
+        result = { error: `Target URL failed security validation: ${validation.error}`, durationMs: 0 };
+      } else {
+        result = await this.httpService.postJson(validation.sanitizedUrl, body, {
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': String(delivery.id),
+          'X-Webhook-Attempt': String(delivery.attempt),
+          'X-Webhook-Signature': this.sign(body, subscription.secret),
+        });
+      }
+
+      const succeeded = result.status >= 200 && result.status < 300;
+      await this.postgresService.completeWebhookDelivery(delivery.id, {
+        status: succeeded ? 'succeeded' : 'failed',
+        responseStatus: result.status,
+        error: succeeded ? undefined : result.error || `HTTP ${result.status}`,
+        durationMs: result.durationMs,
+      });
+
+      if (succeeded) {
+        this.logger.log(`Delivered ${delivery.event} webhook ${delivery.id} to ${subscription.targetUrl}`);
+      } else if (delivery.attempt < this.maxAttempts) {
+        const delayMs = this.getRetryDelay(delivery.attempt);
+        this.logger.warn(`Webhook delivery ${delivery.id} failed, retrying in ${delayMs}ms`);
+        await this.postgresService.createWebhookDelivery({
+          subscriptionId: delivery.subscriptionId,
+          event: delivery.event,
+          payload: delivery.payload,
+          attempt: delivery.attempt + 1,
+          nextAttemptAt: new Date(Date.now() + delayMs),
+        });
+      } else {
+        this.logger.error(`Webhook delivery ${delivery.id} failed after ${delivery.attempt} attempts`);
+      }
+    } finally {
+      this.inFlightDeliveryIds.delete(delivery.id);
+    }
+  }
+
+  /**
+   * Exponential backoff: base, 2x base, 4x base, ... capped at the configured maximum.
+   */
+  private getRetryDelay(attempt: number): number {
+    return Math.min(this.retryBaseMs * 2 ** (attempt - 1), this.retryMaxMs);
+  }
+
+  private async hasStatusChanged(event: StoredFetchEvent): Promise<boolean> {
+    const [, previous] = await this.postgresService.getRecentHistoryForUrlFetch(event.urlFetch.id, 2);
+
+    return previous !== undefined && previous.responseStatus !== event.urlFetch.response_status;
+  }
+}
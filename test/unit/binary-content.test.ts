@@ -0,0 +1,30 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { isBinaryContent } from '../../src/integrations/http/binary-content';
+
+describe('isBinaryContent', () => {
+  it('should trust declared binary and text content types', () => {
+    expect(isBinaryContent('image/jpeg', Buffer.from('looks like text'))).to.be.true;
+    expect(isBinaryContent('application/pdf', Buffer.from('%PDF-1.7'))).to.be.true;
+    expect(isBinaryContent('text/html; charset=utf-8', Buffer.from('<html></html>'))).to.be.false;
+    expect(isBinaryContent('application/ld+json', Buffer.from('{}'))).to.be.false;
+  });
+
+  it('should recognize file signatures behind a text content type', () => {
+    const gzip = Buffer.from([0x1f, 0x8b, 0x08, 0x00]);
+
+    expect(isBinaryContent('text/plain', gzip)).to.be.true;
+  });
+
+  it('should sniff bodies without a content type', () => {
+    expect(isBinaryContent(undefined, Buffer.from('plain text, ünïcode'))).to.be.false;
+    expect(isBinaryContent(undefined, Buffer.from([0x41, 0x00, 0x42]))).to.be.true;
+    expect(isBinaryContent('', Buffer.from([0xc3, 0x28, 0x41]))).to.be.true;
+  });
+
+  it('should not mistake a multi-byte character cut off at the end for invalid UTF-8', () => {
+    const cut = Buffer.from('abc€').subarray(0, 5);
+
+    expect(isBinaryContent(undefined, cut)).to.be.false;
+  });
+});
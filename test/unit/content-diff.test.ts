@@ -0,0 +1,61 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { hashContent, diffBodies, diffHeaders } from '../../src/url-fetcher/content-diff';
+import { SecurityService } from '../../src/integrations/security/security.service';
+
+describe('content-diff', () => {
+  describe('hashContent', () => {
+    it('should return a stable SHA-256 hex digest', () => {
+      expect(hashContent('hello')).to.equal('2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824');
+      expect(hashContent('hello')).to.equal(hashContent('hello'));
+      expect(hashContent('hello')).to.not.equal(hashContent('hello!'));
+    });
+
+    it('should return null when there is no body', () => {
+      expect(hashContent(null)).to.be.null;
+      expect(hashContent(undefined)).to.be.null;
+    });
+  });
+
+  describe('diffBodies', () => {
+    it('should produce a unified diff', () => {
+      const patch = diffBodies('old', 'line one\nline two\n', 'new', 'line one\nline 2\n');
+
+      expect(patch).to.include('--- old');
+      expect(patch).to.include('+++ new');
+      expect(patch).to.include('-line two');
+      expect(patch).to.include('+line 2');
+    });
+
+    it('should diff sanitized bodies line by line', () => {
+      const securityService = new SecurityService();
+      const page = (price: string) => securityService.sanitizeBody(`<html>\n  <h1>Shop</h1>\n  <p>Price: ${price}</p>\n  <footer>\x00Contact</footer>\n</html>\n`);
+
+      const patch = diffBodies('old', page('10'), 'new', page('12'));
+
+      expect(patch).to.include('-  <p>Price: 10</p>\n+  <p>Price: 12</p>');
+      expect(patch).to.include('   <h1>Shop</h1>');
+      expect(patch).to.not.include('-<html>');
+    });
+  });
+
+  describe('diffHeaders', () => {
+    it('should report added, removed and changed headers', () => {
+      const diff = diffHeaders(
+        { 'content-type': 'text/html', etag: '"a"', server: 'nginx' },
+        { 'content-type': 'text/html', etag: '"b"', 'cache-control': 'no-cache' }
+      );
+
+      expect(diff.added).to.deep.equal({ 'cache-control': 'no-cache' });
+      expect(diff.removed).to.deep.equal({ server: 'nginx' });
+      expect(diff.changed).to.deep.equal({ etag: { from: '"a"', to: '"b"' } });
+    });
+
+    it('should treat missing headers as empty', () => {
+      const diff = diffHeaders(null, { server: 'nginx' });
+
+      expect(diff.added).to.deep.equal({ server: 'nginx' });
+      expect(diff.removed).to.deep.equal({});
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { CreateUrlFetchDto } from '../../src/url-fetcher/dto/create-url-fetch.dto';
+
+describe('CreateUrlFetchDto', () => {
+  const validate = (urls: unknown[]): string[] => {
+    const dto = plainToInstance(CreateUrlFetchDto, { urls });
+    return validateSync(dto).flatMap(error => Object.values(error.constraints || {}));
+  };
+
+  it('should accept URL strings and request objects', () => {
+    const errors = validate([
+      'https://example.com',
+      {
+        url: 'https://api.example.com/items',
+        method: 'POST',
+        headers: { Authorization: 'Bearer token' },
+        body: '{"name":"test"}',
+        timeoutMs: 15000,
+        maxRedirects: 0,
+        userAgent: 'Probe/2.0',
+        retry: { maxAttempts: 3, baseDelayMs: 200, jitter: 0.5, retryOnStatus: [503], retryOnErrorCodes: ['ECONNRESET'] },
+      },
+    ]);
+
+    expect(errors).to.be.empty;
+  });
+
+  it('should report invalid options with the index of the entry', () => {
+    const errors = validate([
+      'https://example.com',
+      { url: 'https://api.example.com', method: 'TRACE', timeoutMs: 120000 },
+    ]);
+
+    expect(errors).to.have.length(1);
+    expect(errors[0]).to.include('urls[1]: method must be one of');
+    expect(errors[0]).to.include('urls[1]: timeoutMs must be at most 60000');
+  });
+
+  it('should reject unknown properties, reserved headers and bodies on GET requests', () => {
+    const [error] = validate([
+      { url: 'https://example.com', proxy: 'http://proxy' },
+      { url: 'https://example.com/a', headers: { Host: 'internal' } },
+      { url: 'https://example.com/b', body: 'payload' },
+    ]);
+
+    expect(error).to.include('urls[0]: property proxy should not exist');
+    expect(error).to.include('urls[1]: headers must map valid header names');
+    expect(error).to.include('urls[2]: body is not allowed for GET and HEAD requests');
+  });
+
+  it('should report invalid retry options', () => {
+    const [error] = validate([
+      { url: 'https://example.com', retry: { maxAttempts: 20, retryOnStatus: [42], unknown: true } },
+    ]);
+
+    expect(error).to.include('urls[0]: retry.maxAttempts must be at most 10');
+    expect(error).to.include('urls[0]: retry.retryOnStatus must contain status codes between 100 and 599');
+    expect(error).to.include('urls[0]: property unknown should not exist');
+  });
+
+  it('should reject entries that are neither strings nor objects', () => {
+    const [error] = validate([42]);
+
+    expect(error).to.equal('urls[0]: must be a URL string or a request object');
+  });
+});
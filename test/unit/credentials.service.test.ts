@@ -0,0 +1,186 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { randomBytes } from 'crypto';
+import { CredentialsService } from '../../src/credentials/credentials.service';
+import { CredentialCipher, loadCredentialCipher } from '../../src/credentials/credential-cipher';
+import { Credential, CredentialType } from '../../src/credentials/entities/credential.entity';
+import { PostgresService } from '../../src/integrations/postgres/postgres.service';
+import * as sinon from 'sinon';
+import { BadRequestException, ServiceUnavailableException } from '@nestjs/common';
+
+describe('CredentialsService', () => {
+  let credentialsService: CredentialsService;
+  let postgresService: sinon.SinonStubbedInstance<PostgresService>;
+  let cipher: CredentialCipher;
+
+  const createCredential = (id: number, hostPattern: string, type: CredentialType, secret: string, extra: Partial<Credential> = {}) =>
+    Object.assign(new Credential(), {
+      id,
+      name: `credential ${id}`,
+      hostPattern,
+      type,
+      username: null,
+      headerName: null,
+      encryptedSecret: cipher.encrypt(secret),
+      enabled: true,
+      ...extra,
+    });
+
+  beforeEach(() => {
+    postgresService = sinon.createStubInstance(PostgresService);
+    cipher = new CredentialCipher(randomBytes(32));
+    credentialsService = new CredentialsService(postgresService as any, cipher);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe('CredentialCipher', () => {
+    it('should encrypt with a fresh IV and decrypt back', () => {
+      const first = cipher.encrypt('s3cret-token');
+      const second = cipher.encrypt('s3cret-token');
+
+      expect(first).to.not.include('s3cret-token');
+      expect(first).to.not.equal(second);
+      expect(cipher.decrypt(first)).to.equal('s3cret-token');
+    });
+
+    it('should reject tampered values and other keys', () => {
+      const [version, iv, tag, ciphertext] = cipher.encrypt('s3cret-token').split(':');
+      const tampered = Buffer.from(ciphertext, 'base64');
+      tampered[0] ^= 1;
+
+      expect(() => cipher.decrypt([version, iv, tag, tampered.toString('base64')].join(':'))).to.throw();
+      expect(() => new CredentialCipher(randomBytes(32)).decrypt([version, iv, tag, ciphertext].join(':'))).to.throw();
+    });
+
+    it('should load a hex or base64 key and stay disabled without one', () => {
+      const key = randomBytes(32);
+      const fromHex = loadCredentialCipher({ CREDENTIALS_ENCRYPTION_KEY: key.toString('hex') });
+      const fromBase64 = loadCredentialCipher({ CREDENTIALS_ENCRYPTION_KEY: key.toString('base64') });
+
+      expect(fromBase64.decrypt(fromHex.encrypt('value'))).to.equal('value');
+      expect(loadCredentialCipher({})).to.be.null;
+      expect(() => loadCredentialCipher({ CREDENTIALS_ENCRYPTION_KEY: 'too-short' })).to.throw('32 bytes');
+    });
+  });
+
+  describe('createCredential', () => {
+    it('should store the secret encrypted', async () => {
+      postgresService.createCredential.callsFake(async credential => Object.assign(new Credential(), { id: 1 }, credential));
+
+      const credential = await credentialsService.createCredential({
+        name: 'Partner API',
+        hostPattern: 'API.Partner.com',
+        type: 'bearer',
+        secret: 'partner-token',
+      });
+
+      const stored = postgresService.createCredential.firstCall.args[0];
+      expect(stored.hostPattern).to.equal('api.partner.com');
+      expect(stored.encryptedSecret).to.not.include('partner-token');
+      expect(cipher.decrypt(stored.encryptedSecret)).to.equal('partner-token');
+      expect(JSON.stringify(credential)).to.not.include('encrypted');
+    });
+
+    it('should require a username for basic credentials', async () => {
+      try {
+        await credentialsService.createCredential({ name: 'Admin', hostPattern: 'example.com', type: 'basic', secret: 'pw' });
+        expect.fail('Should have thrown BadRequestException');
+      } catch (error) {
+        expect(error).to.be.instanceOf(BadRequestException);
+        expect(error.message).to.include('username');
+      }
+    });
+
+    it('should refuse to store secrets without an encryption key', async () => {
+      const previousKey = process.env.CREDENTIALS_ENCRYPTION_KEY;
+      delete process.env.CREDENTIALS_ENCRYPTION_KEY;
+      try {
+        const withoutKey = new CredentialsService(postgresService as any);
+
+        await withoutKey.createCredential({ name: 'API', hostPattern: 'example.com', type: 'bearer', secret: 'token' });
+        expect.fail('Should have thrown ServiceUnavailableException');
+      } catch (error) {
+        expect(error).to.be.instanceOf(ServiceUnavailableException);
+      } finally {
+        if (previousKey !== undefined) {
+          process.env.CREDENTIALS_ENCRYPTION_KEY = previousKey;
+        }
+      }
+
+      expect(postgresService.createCredential.called).to.be.false;
+    });
+  });
+
+  describe('resolve', () => {
+    it('should build the headers of each credential type', async () => {
+      postgresService.getCredentials.resolves([
+        createCredential(1, 'basic.example.com', 'basic', 'pw', { username: 'admin' }),
+        createCredential(2, 'bearer.example.com', 'bearer', 'token'),
+        createCredential(3, 'header.example.com', 'header', 'key', { headerName: 'X-API-Key' }),
+      ]);
+
+      expect((await credentialsService.resolve('https://basic.example.com/')).headers).to.deep.equal({
+        Authorization: `Basic ${Buffer.from('admin:pw').toString('base64')}`,
+      });
+      expect((await credentialsService.resolve('https://bearer.example.com/')).headers).to.deep.equal({ Authorization: 'Bearer token' });
+      expect((await credentialsService.resolve('https://header.example.com/')).headers).to.deep.equal({ 'X-API-Key': 'key' });
+      expect(await credentialsService.resolve('https://other.example.com/')).to.be.null;
+      expect(postgresService.getCredentials.calledOnceWith(true)).to.be.true;
+    });
+
+    it('should not send credentials over plain http', async () => {
+      postgresService.getCredentials.resolves([createCredential(1, 'api.example.com', 'bearer', 'token')]);
+
+      expect(await credentialsService.resolve('http://api.example.com/')).to.be.null;
+      expect((await credentialsService.resolve('https://api.example.com/')).id).to.equal(1);
+    });
+
+    it('should prefer the most specific host pattern', async () => {
+      postgresService.getCredentials.resolves([
+        createCredential(1, '*.example.com', 'bearer', 'wildcard'),
+        createCredential(2, 'api.example.com', 'bearer', 'exact'),
+      ]);
+
+      expect((await credentialsService.resolve('https://API.example.com/v1')).id).to.equal(2);
+      expect((await credentialsService.resolve('https://www.example.com/')).id).to.equal(1);
+      expect(await credentialsService.resolve('https://example.com/')).to.be.null;
+    });
+
+    it('should skip credentials that fail to decrypt', async () => {
+      const broken = createCredential(1, 'example.com', 'bearer', 'old');
+      broken.encryptedSecret = new CredentialCipher(randomBytes(32)).encrypt('old');
+      postgresService.getCredentials.resolves([broken, createCredential(2, 'example.com', 'bearer', 'new')]);
+
+      const resolved = await credentialsService.resolve('https://example.com/');
+
+      expect(resolved.id).to.equal(2);
+      expect(resolved.secrets).to.deep.equal(['Bearer new']);
+    });
+
+    it('should redact only injected header values long enough not to occur by chance', async () => {
+      postgresService.getCredentials.resolves([
+        createCredential(1, 'legacy.example.com', 'header', '1', { headerName: 'X-API-Key' }),
+        createCredential(2, 'api.example.com', 'header', 'partner-key-0042', { headerName: 'X-API-Key' }),
+      ]);
+
+      expect((await credentialsService.resolve('https://legacy.example.com/')).secrets).to.deep.equal([]);
+      expect((await credentialsService.resolve('https://api.example.com/')).secrets).to.deep.equal(['partner-key-0042']);
+    });
+
+    it('should reload credentials after a change', async () => {
+      postgresService.getCredentials.resolves([createCredential(1, 'example.com', 'bearer', 'token')]);
+      postgresService.getCredentialById.resolves(createCredential(1, 'example.com', 'bearer', 'token'));
+
+      await credentialsService.resolve('https://example.com/');
+      await credentialsService.resolve('https://example.com/');
+      await credentialsService.updateCredential(1, { enabled: false });
+      postgresService.getCredentials.resolves([]);
+
+      expect(await credentialsService.resolve('https://example.com/')).to.be.null;
+      expect(postgresService.getCredentials.callCount).to.equal(2);
+    });
+  });
+});
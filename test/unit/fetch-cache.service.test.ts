@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as sinon from 'sinon';
+import { FetchCacheService, StoredUrlFetch } from '../../src/url-fetcher/fetch-cache.service';
+import { MemoryCacheStore } from '../../src/integrations/cache-store/memory-cache-store';
+import { getFreshnessLifetimeMs, isStorable } from '../../src/integrations/http/cache-control';
+import { MetricsService } from '../../src/metrics/metrics.service';
+
+const storedFetch = (headers: Record<string, string>, overrides: Partial<StoredUrlFetch> = {}) => ({
+  id: 1,
+  url: 'https://example.com/',
+  response_status: 200,
+  response_headers: headers,
+  response_body: '<html>Cached</html>',
+  ...overrides,
+} as StoredUrlFetch);
+
+describe('FetchCacheService', () => {
+  let metricsService: sinon.SinonStubbedInstance<MetricsService>;
+  let fetchCache: FetchCacheService;
+
+  beforeEach(() => {
+    metricsService = sinon.createStubInstance(MetricsService);
+    fetchCache = new FetchCacheService(new MemoryCacheStore(100), metricsService as any, { enabled: true });
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('should reuse a result while Cache-Control says it is fresh', async () => {
+    await fetchCache.store('https://example.com/', {}, storedFetch({ 'cache-control': 'public, max-age=60' }), 1000);
+
+    expect(await fetchCache.lookup('https://example.com/', {}, 30000)).to.deep.include({ id: 1 });
+    expect(await fetchCache.lookup('https://example.com/', {}, 62000)).to.be.null;
+    expect(metricsService.recordFetchCacheLookup.getCalls().map(call => call.args[0])).to.deep.equal([true, false]);
+  });
+
+  it('should let maxAgeSeconds decide freshness when the request sets it', async () => {
+    await fetchCache.store('https://example.com/', {}, storedFetch({}), 1000);
+
+    expect(await fetchCache.lookup('https://example.com/', {}, 2000)).to.be.null;
+    expect(await fetchCache.lookup('https://example.com/', { maxAgeSeconds: 5 }, 2000)).to.not.be.null;
+    expect(await fetchCache.lookup('https://example.com/', { maxAgeSeconds: 5 }, 7000)).to.be.null;
+  });
+
+  it('should not cache failures, no-store responses or unsafe methods', async () => {
+    await fetchCache.store('https://example.com/a', {}, storedFetch({ 'cache-control': 'no-store, max-age=60' }));
+    await fetchCache.store('https://example.com/b', {}, storedFetch({ 'cache-control': 'max-age=60' }, { response_status: 503 }));
+    await fetchCache.store('https://example.com/c', { method: 'POST' }, storedFetch({ 'cache-control': 'max-age=60' }));
+
+    expect(await fetchCache.lookup('https://example.com/a', {})).to.be.null;
+    expect(await fetchCache.lookup('https://example.com/b', {})).to.be.null;
+    expect(await fetchCache.lookup('https://example.com/c', { method: 'POST' })).to.be.null;
+  });
+
+  it('should cache requests with different headers separately and bypass the cache for maxAgeSeconds 0', async () => {
+    await fetchCache.store('https://example.com/', { headers: { 'Accept-Language': 'de' } }, storedFetch({ 'cache-control': 'max-age=60' }));
+
+    expect(await fetchCache.lookup('https://example.com/', { headers: { 'Accept-Language': 'de' } })).to.not.be.null;
+    expect(await fetchCache.lookup('https://example.com/', { headers: { 'Accept-Language': 'fr' } })).to.be.null;
+    expect(await fetchCache.lookup('https://example.com/', { headers: { 'Accept-Language': 'de' }, maxAgeSeconds: 0 })).to.be.null;
+  });
+
+  it('should only use the cache for requests with maxAgeSeconds when disabled globally', async () => {
+    fetchCache = new FetchCacheService(new MemoryCacheStore(100), metricsService as any, { enabled: false });
+    await fetchCache.store('https://example.com/', {}, storedFetch({ 'cache-control': 'max-age=60' }));
+    await fetchCache.store('https://example.com/', { maxAgeSeconds: 60 }, storedFetch({ 'cache-control': 'max-age=60' }));
+
+    expect(await fetchCache.lookup('https://example.com/', {})).to.be.null;
+    expect(await fetchCache.lookup('https://example.com/', { maxAgeSeconds: 60 })).to.not.be.null;
+    expect(metricsService.recordFetchCacheLookup.calledOnceWith(true)).to.be.true;
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('should expire entries and evict the oldest past its size', async () => {
+    let now = 0;
+    const store = new MemoryCacheStore(2, () => now);
+
+    await store.set('a', '1', 1000);
+    await store.set('b', '2', 5000);
+    await store.set('c', '3', 5000);
+    expect(await store.get('a')).to.be.null;
+
+    now = 2000;
+    expect(await store.get('b')).to.equal('2');
+    now = 5000;
+    expect(await store.get('c')).to.be.null;
+  });
+});
+
+describe('cache-control', () => {
+  it('should prefer s-maxage and max-age over Expires, less Age', () => {
+    expect(getFreshnessLifetimeMs({ 'cache-control': 'max-age=60, s-maxage=120' })).to.equal(120000);
+    expect(getFreshnessLifetimeMs({ 'cache-control': 'max-age=60', age: '15' })).to.equal(45000);
+    expect(getFreshnessLifetimeMs({
+      date: 'Mon, 15 Jan 2024 10:00:00 GMT',
+      expires: 'Mon, 15 Jan 2024 10:05:00 GMT',
+    })).to.equal(300000);
+  });
+
+  it('should treat no-cache and invalid Expires as stale and missing headers as unknown', () => {
+    expect(getFreshnessLifetimeMs({ 'cache-control': 'no-cache, max-age=60' })).to.equal(0);
+    expect(getFreshnessLifetimeMs({ expires: '0' })).to.equal(0);
+    expect(getFreshnessLifetimeMs({})).to.be.undefined;
+  });
+
+  it('should not store private or no-store responses', () => {
+    expect(isStorable({ 'cache-control': 'private, max-age=60' })).to.be.false;
+    expect(isStorable({ 'cache-control': 'no-store' })).to.be.false;
+    expect(isStorable({ 'cache-control': 'public' })).to.be.true;
+  });
+});
@@ -0,0 +1,36 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { FetchError, classifyFetchError } from '../../src/integrations/http/fetch-error';
+
+const systemError = (code: string) => Object.assign(new Error(`connect ${code}`), { code });
+
+describe('fetch-error', () => {
+  describe('classifyFetchError', () => {
+    it('should group system error codes', () => {
+      expect(classifyFetchError(systemError('ENOTFOUND'))).to.equal('dns_failure');
+      expect(classifyFetchError(systemError('EAI_AGAIN'))).to.equal('dns_failure');
+      expect(classifyFetchError(systemError('ECONNABORTED'))).to.equal('timeout');
+      expect(classifyFetchError(systemError('ETIMEDOUT'))).to.equal('timeout');
+      expect(classifyFetchError(systemError('ECONNREFUSED'))).to.equal('connection_refused');
+      expect(classifyFetchError(systemError('ECONNRESET'))).to.equal('connection_reset');
+      expect(classifyFetchError(systemError('EHOSTUNREACH'))).to.equal('host_unreachable');
+    });
+
+    it('should recognize refused TLS connections', () => {
+      expect(classifyFetchError(systemError('CERT_HAS_EXPIRED'))).to.equal('tls_error');
+      expect(classifyFetchError(systemError('ERR_SSL_WRONG_VERSION_NUMBER'))).to.equal('tls_error');
+    });
+
+    it('should keep the code of fetch errors, also when axios wrapped them', () => {
+      const error = new FetchError('proxy_error', 'Proxy proxy.internal:3128 refused the tunnel: HTTP/1.1 403 Forbidden');
+
+      expect(classifyFetchError(error)).to.equal('proxy_error');
+      expect(classifyFetchError({ code: error.code, message: error.message })).to.equal('proxy_error');
+    });
+
+    it('should fall back to network_error', () => {
+      expect(classifyFetchError(new Error('socket hang up'))).to.equal('network_error');
+      expect(classifyFetchError(systemError('ERR_SOMETHING_NEW'))).to.equal('network_error');
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { FetchJobsService } from '../../src/url-fetcher/fetch-jobs.service';
+import { UrlFetcherService } from '../../src/url-fetcher/url-fetcher.service';
+import { PostgresService } from '../../src/integrations/postgres/postgres.service';
+import { SecurityService } from '../../src/integrations/security/security.service';
+import { FetchJob } from '../../src/url-fetcher/entities/fetch-job.entity';
+import * as sinon from 'sinon';
+import { BadRequestException } from '@nestjs/common';
+
+describe('FetchJobsService', () => {
+  let fetchJobsService: FetchJobsService;
+  let urlFetcherService: sinon.SinonStubbedInstance<UrlFetcherService>;
+  let postgresService: sinon.SinonStubbedInstance<PostgresService>;
+
+  const createJob = (urls: string[]): FetchJob => {
+    const job = new FetchJob();
+    job.id = 7;
+    job.status = 'pending';
+    job.items = urls.map(url => ({ url, status: 'pending' }));
+    job.totalUrls = urls.length;
+    job.completedUrls = 0;
+    job.failedUrls = 0;
+    return job;
+  };
+
+  const flushJobs = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    urlFetcherService = sinon.createStubInstance(UrlFetcherService);
+    postgresService = sinon.createStubInstance(PostgresService);
+
+    fetchJobsService = new FetchJobsService(
+      urlFetcherService as any,
+      postgresService as any,
+      new SecurityService()
+    );
+  });
+
+  afterEach(() => {
+    fetchJobsService.onModuleDestroy();
+    sinon.restore();
+  });
+
+  describe('createJob', () => {
+    it('should create a job and process every URL in the background', async () => {
+      const urls = ['https://example.com/', 'https://httpbin.org/'];
+      const requests = urls.map(url => ({ url, options: {} }));
+      urlFetcherService.validateRequests.returns(requests);
+      postgresService.createFetchJob.resolves(createJob(urls));
+      urlFetcherService.fetchUrls.onFirstCall().resolves([{ id: 11 } as any]);
+      urlFetcherService.fetchUrls.onSecondCall().resolves([{ id: 12 } as any]);
+
+      const job = await fetchJobsService.createJob({ urls, async: true });
+      await flushJobs();
+
+      expect(job.id).to.equal(7);
+      expect(postgresService.createFetchJob.calledOnceWith(requests)).to.be.true;
+      expect(postgresService.markFetchJobRunning.calledOnceWith(7)).to.be.true;
+      expect(postgresService.updateFetchJobItem.calledTwice).to.be.true;
+      expect(postgresService.updateFetchJobItem.firstCall.args).to.deep.equal([
+        7, 0, { url: 'https://example.com/', status: 'completed', urlFetchId: 11 },
+      ]);
+      expect(postgresService.completeFetchJob.calledOnceWith(7)).to.be.true;
+    });
+
+    it('should record items that could not be processed as failed', async () => {
+      const urls = ['https://example.com/'];
+      urlFetcherService.validateRequests.returns([{ url: urls[0], options: {} }]);
+      postgresService.createFetchJob.resolves(createJob(urls));
+      urlFetcherService.fetchUrls.rejects(new Error('Service temporarily unavailable'));
+
+      await fetchJobsService.createJob({ urls, async: true });
+      await flushJobs();
+
+      expect(postgresService.updateFetchJobItem.firstCall.args).to.deep.equal([
+        7, 0, { url: 'https://example.com/', status: 'failed', error: 'Service temporarily unavailable' },
+      ]);
+      expect(postgresService.completeFetchJob.calledOnce).to.be.true;
+    });
+
+    it('should record rejected URLs as items in partial mode', async () => {
+      urlFetcherService.partitionRequests.returns([
+        { url: 'https://example.com/', request: { url: 'https://example.com/', options: {} } },
+        { url: 'http://localhost', error: 'Hostname localhost is not allowed' },
+      ]);
+      postgresService.createFetchJob.resolves(createJob(['https://example.com/']));
+      urlFetcherService.fetchUrls.resolves([{ id: 11 } as any]);
+
+      await fetchJobsService.createJob({ urls: ['https://example.com/', 'http://localhost'], async: true, partial: true });
+      await flushJobs();
+
+      expect(urlFetcherService.validateRequests.called).to.be.false;
+      expect(postgresService.createFetchJob.firstCall.args).to.deep.equal([
+        [{ url: 'https://example.com/', options: {} }],
+        [{ url: 'http://localhost', error: 'Hostname localhost is not allowed' }],
+      ]);
+    });
+
+    it('should store credential headers redacted but send the originals', async () => {
+      const options = { headers: { Authorization: 'Bearer abc123', Accept: 'application/json' } };
+      urlFetcherService.validateRequests.returns([{ url: 'https://api.example.com/', options }]);
+      const job = createJob(['https://api.example.com/']);
+      job.items[0].options = { headers: { Authorization: '[REDACTED]', Accept: 'application/json' } };
+      postgresService.createFetchJob.resolves(job);
+      urlFetcherService.fetchUrls.resolves([{ id: 11 } as any]);
+
+      await fetchJobsService.createJob({ urls: ['https://api.example.com/'], async: true });
+      await flushJobs();
+
+      expect(postgresService.createFetchJob.firstCall.args[0]).to.deep.equal([
+        { url: 'https://api.example.com/', options: { headers: { Authorization: '[REDACTED]', Accept: 'application/json' } } },
+      ]);
+      expect(urlFetcherService.fetchUrls.firstCall.args[0]).to.deep.equal({
+        urls: [{ url: 'https://api.example.com/', headers: { Authorization: 'Bearer abc123', Accept: 'application/json' } }],
+      });
+    });
+
+    it('should not create a job when URLs fail security validation', async () => {
+      urlFetcherService.validateRequests.throws(new BadRequestException('Some URLs failed security validation'));
+
+      try {
+        await fetchJobsService.createJob({ urls: ['http://localhost'], async: true });
+        expect.fail('Should have thrown BadRequestException');
+      } catch (error) {
+        expect(error).to.be.instanceOf(BadRequestException);
+      }
+
+      expect(postgresService.createFetchJob.called).to.be.false;
+    });
+  });
+
+  describe('onApplicationBootstrap', () => {
+    it('should only resume the jobs it claimed, and keep looking for stale ones', async () => {
+      const clock = sinon.useFakeTimers();
+      postgresService.claimStaleFetchJobs.resolves([]);
+
+      try {
+        await fetchJobsService.onApplicationBootstrap();
+        expect(postgresService.claimStaleFetchJobs.calledOnceWith(60000)).to.be.true;
+
+        await clock.tickAsync(60000);
+        expect(postgresService.claimStaleFetchJobs.calledTwice).to.be.true;
+        expect(urlFetcherService.fetchUrls.called).to.be.false;
+      } finally {
+        clock.restore();
+      }
+    });
+
+    it('should resume only the pending items of incomplete jobs', async () => {
+      const job = createJob(['https://example.com/', 'https://httpbin.org/']);
+      job.status = 'running';
+      job.items[0] = { url: 'https://example.com/', status: 'completed', urlFetchId: 11 };
+      postgresService.claimStaleFetchJobs.resolves([job]);
+      urlFetcherService.fetchUrls.resolves([{ id: 12 } as any]);
+
+      await fetchJobsService.onApplicationBootstrap();
+      await flushJobs();
+
+      expect(urlFetcherService.fetchUrls.calledOnceWith({ urls: ['https://httpbin.org/'] })).to.be.true;
+      expect(postgresService.completeFetchJob.calledOnceWith(7)).to.be.true;
+    });
+
+    it('should fetch pending items with their request options', async () => {
+      const job = createJob(['https://api.example.com/items']);
+      job.items[0].options = { method: 'POST', body: '{}' };
+      postgresService.claimStaleFetchJobs.resolves([job]);
+      urlFetcherService.fetchUrls.resolves([{ id: 13 } as any]);
+
+      await fetchJobsService.onApplicationBootstrap();
+      await flushJobs();
+
+      expect(urlFetcherService.fetchUrls.firstCall.args[0]).to.deep.equal({
+        urls: [{ url: 'https://api.example.com/items', method: 'POST', body: '{}' }],
+      });
+      // The completed item replaces the pending one, options included
+      expect(postgresService.updateFetchJobItem.firstCall.args[2]).to.deep.equal({
+        url: 'https://api.example.com/items', status: 'completed', urlFetchId: 13,
+      });
+    });
+
+    it('should keep the claim on a job while a slow item is fetched', async () => {
+      const clock = sinon.useFakeTimers();
+      let finishFetch: (value: any) => void;
+      postgresService.claimStaleFetchJobs.resolves([]);
+      postgresService.claimStaleFetchJobs.onFirstCall().resolves([createJob(['https://slow.example.com/'])]);
+      postgresService.touchFetchJob.resolves();
+      urlFetcherService.fetchUrls.returns(new Promise(resolve => { finishFetch = resolve; }));
+
+      try {
+        await fetchJobsService.onApplicationBootstrap();
+        await clock.tickAsync(20000);
+        expect(postgresService.touchFetchJob.calledWith(7)).to.be.true;
+
+        finishFetch([{ id: 14 }]);
+        await clock.tickAsync(0);
+        const heartbeats = postgresService.touchFetchJob.callCount;
+        await clock.tickAsync(40000);
+        expect(postgresService.completeFetchJob.calledOnceWith(7)).to.be.true;
+        expect(postgresService.touchFetchJob.callCount).to.equal(heartbeats);
+      } finally {
+        clock.restore();
+      }
+    });
+
+    it('should fail pending items whose credentials were redacted instead of sending them', async () => {
+      const job = createJob(['https://api.example.com/items']);
+      job.items[0].options = { headers: { Authorization: '[REDACTED]' } };
+      postgresService.claimStaleFetchJobs.resolves([job]);
+
+      await fetchJobsService.onApplicationBootstrap();
+      await flushJobs();
+
+      expect(urlFetcherService.fetchUrls.called).to.be.false;
+      expect(postgresService.updateFetchJobItem.firstCall.args[2]).to.include({
+        url: 'https://api.example.com/items', status: 'failed',
+      });
+      expect(postgresService.completeFetchJob.calledOnceWith(7)).to.be.true;
+    });
+  });
+
+  describe('getJobById', () => {
+    it('should return the job together with its stored results', async () => {
+      const job = createJob(['https://example.com/', 'https://httpbin.org/']);
+      job.items[0] = { url: 'https://example.com/', status: 'completed', urlFetchId: 11 };
+      postgresService.getFetchJobById.resolves(job);
+      postgresService.getUrlFetchesByIds.resolves([{ id: 11 } as any]);
+
+      const result = await fetchJobsService.getJobById(7);
+
+      expect(result.job).to.equal(job);
+      expect(result.results).to.deep.equal([{ id: 11 }]);
+      expect(postgresService.getUrlFetchesByIds.calledOnceWith([11])).to.be.true;
+    });
+
+    it('should return null for unknown jobs', async () => {
+      postgresService.getFetchJobById.resolves(null);
+
+      const result = await fetchJobsService.getJobById(99);
+
+      expect(result).to.be.null;
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { mkdtempSync, rmSync, existsSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FilesystemBlobStore } from '../../src/integrations/blob-store/filesystem-blob-store';
+import { hashContent } from '../../src/url-fetcher/content-diff';
+
+describe('FilesystemBlobStore', () => {
+  let directory: string;
+  let blobStore: FilesystemBlobStore;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'blob-store-'));
+    blobStore = new FilesystemBlobStore(directory);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should store and return bytes unchanged', async () => {
+    const bytes = Buffer.from([0x00, 0xff, 0x10, 0x80]);
+    const key = hashContent(bytes);
+
+    await blobStore.put(key, bytes);
+
+    expect(existsSync(join(directory, key.slice(0, 2), key))).to.be.true;
+    expect((await blobStore.get(key)).equals(bytes)).to.be.true;
+  });
+
+  it('should store the same blob from concurrent puts once', async () => {
+    const bytes = Buffer.from('image bytes');
+    const key = hashContent(bytes);
+
+    await Promise.all([blobStore.put(key, bytes), blobStore.put(key, bytes), blobStore.put(key, bytes)]);
+
+    expect(readdirSync(join(directory, key.slice(0, 2)))).to.deep.equal([key]);
+    expect((await blobStore.get(key)).equals(bytes)).to.be.true;
+  });
+
+  it('should return null for unknown keys', async () => {
+    expect(await blobStore.get(hashContent('missing'))).to.be.null;
+  });
+
+  it('should refuse keys that are not hex digests', async () => {
+    try {
+      await blobStore.get('../../etc/passwd');
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error.message).to.equal("Invalid blob key '../../etc/passwd'");
+    }
+  });
+});
@@ -0,0 +1,34 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { compileCidr, compileHostPattern } from '../../src/integrations/security/host-matching';
+
+describe('host matching', () => {
+  describe('compileHostPattern', () => {
+    it('should match exact hostnames and wildcards, ignoring case', () => {
+      expect(compileHostPattern('API.example.com').test('api.example.com')).to.be.true;
+      expect(compileHostPattern('*.example.com').test('www.example.com')).to.be.true;
+      expect(compileHostPattern('*.example.com').test('example.com')).to.be.false;
+      expect(compileHostPattern('metadata.*').test('metadata.google.internal')).to.be.true;
+    });
+
+    it('should treat other regular expression characters literally', () => {
+      expect(compileHostPattern('example.com').test('exampleXcom')).to.be.false;
+      expect(compileHostPattern('a+b.example.com').test('aab.example.com')).to.be.false;
+    });
+  });
+
+  describe('compileCidr', () => {
+    it('should compile ranges and single addresses', () => {
+      expect(compileCidr('10.0.0.0/8').check('10.1.2.3', 'ipv4')).to.be.true;
+      expect(compileCidr('10.20.0.5').check('10.20.0.6', 'ipv4')).to.be.false;
+      expect(compileCidr('fc00::/7').check('fd00::1', 'ipv6')).to.be.true;
+    });
+
+    it('should return null for anything else', () => {
+      expect(compileCidr('example.com')).to.be.null;
+      expect(compileCidr('10.0.0.0/33')).to.be.null;
+      expect(compileCidr('10.0.0.0/')).to.be.null;
+      expect(compileCidr('::/129')).to.be.null;
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as sinon from 'sinon';
+import { HostSchedulerService } from '../../src/url-fetcher/host-scheduler.service';
+import { MetricsService } from '../../src/metrics/metrics.service';
+
+describe('HostSchedulerService', () => {
+  let metricsService: sinon.SinonStubbedInstance<MetricsService>;
+  let clock: sinon.SinonFakeTimers;
+
+  beforeEach(() => {
+    metricsService = sinon.createStubInstance(MetricsService);
+    clock = sinon.useFakeTimers();
+  });
+
+  afterEach(() => {
+    clock.restore();
+    sinon.restore();
+  });
+
+  // A task that stays running until release() is called
+  const createTask = (log: string[], name: string) => {
+    let release: () => void;
+    const done = new Promise<void>(resolve => (release = resolve));
+    const task = async () => {
+      log.push(name);
+      await done;
+      return name;
+    };
+    return { task, release: () => release() };
+  };
+
+  const flush = () => clock.tickAsync(0);
+
+  it('should cap the number of concurrent fetches per host', async () => {
+    const scheduler = new HostSchedulerService(metricsService as any, { maxConcurrency: 10, maxConcurrencyPerHost: 2, hostDelayMs: 0 });
+    const started: string[] = [];
+    const tasks = ['a', 'b', 'c'].map(name => createTask(started, name));
+
+    const results = tasks.map(({ task }) => scheduler.schedule('https://example.com/page', task));
+    const other = createTask(started, 'other');
+    scheduler.schedule('https://other.example.org/', other.task);
+    await flush();
+
+    expect(started).to.deep.equal(['a', 'b', 'other']);
+
+    tasks[0].release();
+    await flush();
+
+    expect(started).to.deep.equal(['a', 'b', 'other', 'c']);
+
+    tasks.slice(1).forEach(({ release }) => release());
+    expect(await Promise.all(results)).to.deep.equal(['a', 'b', 'c']);
+  });
+
+  it('should cap the number of concurrent fetches overall', async () => {
+    const scheduler = new HostSchedulerService(metricsService as any, { maxConcurrency: 2, maxConcurrencyPerHost: 2, hostDelayMs: 0 });
+    const started: string[] = [];
+    const tasks = ['one', 'two', 'three'].map(name => createTask(started, name));
+
+    tasks.forEach(({ task }, index) => scheduler.schedule(`https://host-${index}.example.com/`, task));
+    await flush();
+
+    expect(started).to.deep.equal(['one', 'two']);
+    expect(metricsService.setFetchQueueDepth.lastCall.args[0]).to.equal(1);
+
+    tasks[1].release();
+    await flush();
+
+    expect(started).to.deep.equal(['one', 'two', 'three']);
+    expect(metricsService.setFetchQueueDepth.lastCall.args[0]).to.equal(0);
+  });
+
+  it('should space out requests to the same host', async () => {
+    const scheduler = new HostSchedulerService(metricsService as any, { maxConcurrency: 10, maxConcurrencyPerHost: 5, hostDelayMs: 500 });
+    const startedAt: number[] = [];
+
+    const results = [1, 2, 3].map(() => scheduler.schedule('https://example.com/', async () => {
+      startedAt.push(Date.now());
+    }));
+    await clock.tickAsync(1000);
+    await Promise.all(results);
+
+    expect(startedAt).to.deep.equal([0, 500, 1000]);
+    expect(metricsService.recordFetchQueueWait.getCalls().map(call => call.args[0])).to.deep.equal([0, 500, 1000]);
+  });
+
+  it('should pass on task failures and free the slot', async () => {
+    const scheduler = new HostSchedulerService(metricsService as any, { maxConcurrency: 1, maxConcurrencyPerHost: 1, hostDelayMs: 0 });
+
+    const failed = scheduler.schedule('https://example.com/', async () => {
+      throw new Error('boom');
+    });
+    const next = scheduler.schedule('https://example.com/', async () => 'next');
+
+    try {
+      await failed;
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error.message).to.equal('boom');
+    }
+    expect(await next).to.equal('next');
+  });
+});
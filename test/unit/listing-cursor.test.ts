@@ -0,0 +1,24 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { decodeCursor, encodeCursor } from '../../src/url-fetcher/listing-cursor';
+
+describe('listing-cursor', () => {
+  it('should round-trip a cursor through an opaque token', () => {
+    const cursor = { fetchedAt: '2024-01-01T12:00:00.123456Z', id: 42, direction: 'next' as const };
+
+    const token = encodeCursor(cursor);
+
+    expect(token).to.match(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(token)).to.deep.equal(cursor);
+  });
+
+  it('should reject tokens that were not made by encodeCursor', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    expect(decodeCursor('not a cursor')).to.be.null;
+    expect(decodeCursor(encode({ id: 42 }))).to.be.null;
+    expect(decodeCursor(encode(['2024-01-01', 42, 'next']))).to.be.null;
+    expect(decodeCursor(encode(['2024-01-01T12:00:00.123456Z', '42; DROP TABLE url_fetches', 'next']))).to.be.null;
+    expect(decodeCursor(encode(['2024-01-01T12:00:00.123456Z', 42, 'sideways']))).to.be.null;
+  });
+});
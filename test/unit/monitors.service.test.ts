@@ -0,0 +1,194 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { MonitorsService } from '../../src/monitors/monitors.service';
+import { UrlFetcherService } from '../../src/url-fetcher/url-fetcher.service';
+import { PostgresService } from '../../src/integrations/postgres/postgres.service';
+import { Monitor } from '../../src/monitors/entities/monitor.entity';
+import * as sinon from 'sinon';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+
+describe('MonitorsService', () => {
+  let monitorsService: MonitorsService;
+  let urlFetcherService: sinon.SinonStubbedInstance<UrlFetcherService>;
+  let postgresService: sinon.SinonStubbedInstance<PostgresService>;
+
+  const createMonitor = (overrides: Partial<Monitor> = {}): Monitor => {
+    const monitor = new Monitor();
+    monitor.id = 1;
+    monitor.url = 'https://example.com/';
+    monitor.intervalSeconds = 60;
+    monitor.cronExpression = null;
+    monitor.enabled = true;
+    monitor.consecutiveFailures = 0;
+    return Object.assign(monitor, overrides);
+  };
+
+  beforeEach(() => {
+    urlFetcherService = sinon.createStubInstance(UrlFetcherService);
+    postgresService = sinon.createStubInstance(PostgresService);
+
+    monitorsService = new MonitorsService(
+      urlFetcherService as any,
+      postgresService as any
+    );
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe('createMonitor', () => {
+    it('should create an interval monitor that runs right away', async () => {
+      urlFetcherService.validateUrls.returns(['https://example.com/']);
+      postgresService.createMonitor.resolves(createMonitor());
+
+      const before = Date.now();
+      await monitorsService.createMonitor({ url: 'https://example.com', intervalSeconds: 60 });
+
+      const created = postgresService.createMonitor.firstCall.args[0];
+      expect(created.url).to.equal('https://example.com/');
+      expect(created.intervalSeconds).to.equal(60);
+      expect(created.cronExpression).to.be.null;
+      expect(created.enabled).to.be.true;
+      expect(created.nextRunAt.getTime()).to.be.at.least(before);
+    });
+
+    it('should schedule a cron monitor at its next slot', async () => {
+      urlFetcherService.validateUrls.returns(['https://example.com/']);
+      postgresService.createMonitor.resolves(createMonitor());
+
+      await monitorsService.createMonitor({ url: 'https://example.com', cronExpression: '0 * * * *' });
+
+      const created = postgresService.createMonitor.firstCall.args[0];
+      expect(created.nextRunAt.getUTCMinutes()).to.equal(0);
+      expect(created.nextRunAt.getTime()).to.be.greaterThan(Date.now());
+    });
+
+    it('should reject monitors with both or neither schedule type', async () => {
+      for (const dto of [
+        { url: 'https://example.com' },
+        { url: 'https://example.com', intervalSeconds: 60, cronExpression: '* * * * *' },
+      ]) {
+        try {
+          await monitorsService.createMonitor(dto);
+          expect.fail('Should have thrown BadRequestException');
+        } catch (error) {
+          expect(error).to.be.instanceOf(BadRequestException);
+        }
+      }
+
+      expect(postgresService.createMonitor.called).to.be.false;
+    });
+
+    it('should reject invalid cron expressions', async () => {
+      urlFetcherService.validateUrls.returns(['https://example.com/']);
+
+      try {
+        await monitorsService.createMonitor({ url: 'https://example.com', cronExpression: 'not a cron' });
+        expect.fail('Should have thrown BadRequestException');
+      } catch (error) {
+        expect(error).to.be.instanceOf(BadRequestException);
+        expect(error.message).to.include('Invalid cron expression');
+      }
+    });
+  });
+
+  describe('updateMonitor', () => {
+    it('should throw NotFoundException for unknown monitors', async () => {
+      postgresService.getMonitorById.resolves(null);
+
+      try {
+        await monitorsService.updateMonitor(42, { enabled: false });
+        expect.fail('Should have thrown NotFoundException');
+      } catch (error) {
+        expect(error).to.be.instanceOf(NotFoundException);
+      }
+    });
+
+    it('should switch from an interval to a cron schedule', async () => {
+      postgresService.getMonitorById.resolves(createMonitor());
+
+      await monitorsService.updateMonitor(1, { cronExpression: '*/5 * * * *' });
+
+      const changes = postgresService.updateMonitor.firstCall.args[1];
+      expect(changes.cronExpression).to.equal('*/5 * * * *');
+      expect(changes.intervalSeconds).to.be.null;
+      expect(changes.nextRunAt).to.be.instanceOf(Date);
+    });
+  });
+
+  describe('getExpiringCertificates', () => {
+    it('should look up certificates expiring within the window and count the days left', async () => {
+      const now = new Date('2024-06-01T00:00:00Z');
+      postgresService.getExpiringCertificates.resolves([
+        {
+          host: 'expired.example.com',
+          url: 'https://expired.example.com/',
+          monitor_id: 2,
+          certificate: null,
+          tls_error: { code: 'CERT_HAS_EXPIRED', reason: 'expired', message: 'certificate has expired' },
+          expires_at: null,
+          fetched_at: now,
+        },
+        {
+          host: 'example.com',
+          url: 'https://example.com/',
+          monitor_id: 1,
+          certificate: null,
+          tls_error: null,
+          expires_at: new Date('2024-06-11T12:00:00Z'),
+          fetched_at: now,
+        },
+      ]);
+
+      const certificates = await monitorsService.getExpiringCertificates(14, now);
+
+      expect(postgresService.getExpiringCertificates.firstCall.args[0]).to.deep.equal(new Date('2024-06-15T00:00:00Z'));
+      expect(certificates.map(certificate => certificate.days_remaining)).to.deep.equal([null, 10]);
+    });
+  });
+
+  describe('runDueMonitors', () => {
+    it('should record a successful run and schedule the next one', async () => {
+      postgresService.getDueMonitors.resolves([createMonitor()]);
+      urlFetcherService.fetchUrls.resolves([{ id: 5, response_status: 200 } as any]);
+
+      await monitorsService.runDueMonitors();
+
+      expect(urlFetcherService.fetchUrls.calledOnceWith({ urls: [{ url: 'https://example.com/', maxAgeSeconds: 0 }] })).to.be.true;
+      const [id, run] = postgresService.recordMonitorRun.firstCall.args;
+      expect(id).to.equal(1);
+      expect(run.succeeded).to.be.true;
+      expect(run.status).to.equal(200);
+      expect(run.nextRunAt.getTime() - run.ranAt.getTime()).to.equal(60000);
+    });
+
+    it('should count error responses and failed fetches as failures', async () => {
+      postgresService.getDueMonitors.resolves([createMonitor(), createMonitor({ id: 2 })]);
+      urlFetcherService.fetchUrls.onFirstCall().resolves([{ id: 5, response_status: 503 } as any]);
+      urlFetcherService.fetchUrls.onSecondCall().rejects(new Error('Service temporarily unavailable'));
+
+      await monitorsService.runDueMonitors();
+
+      const runs = postgresService.recordMonitorRun.getCalls().map(call => call.args[1]);
+      expect(runs.map(run => run.succeeded)).to.deep.equal([false, false]);
+      expect(runs[0].error).to.equal('HTTP 503');
+      expect(runs[1].error).to.equal('Service temporarily unavailable');
+    });
+
+    it('should record why a fetch without a response failed', async () => {
+      postgresService.getDueMonitors.resolves([createMonitor(), createMonitor({ id: 2 })]);
+      urlFetcherService.fetchUrls.onFirstCall().resolves([
+        { id: 5, response_status: null, error_code: 'timeout', error_message: 'timeout of 30000ms exceeded' } as any,
+      ]);
+      urlFetcherService.fetchUrls.onSecondCall().resolves([{ id: 6, response_status: null } as any]);
+
+      await monitorsService.runDueMonitors();
+
+      const runs = postgresService.recordMonitorRun.getCalls().map(call => call.args[1]);
+      expect(runs.map(run => run.succeeded)).to.deep.equal([false, false]);
+      expect(runs[0].error).to.equal('timeout of 30000ms exceeded');
+      expect(runs[1].error).to.equal('Fetch failed without a response');
+    });
+  });
+});
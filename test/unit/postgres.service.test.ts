@@ -5,6 +5,7 @@ import { Repository, DataSource, QueryFailedError } from 'typeorm';
 import { UrlFetch } from '../../src/url-fetcher/entities/url-fetch.entity';
 import { ServiceUnavailableException } from '@nestjs/common';
 import { MetricsService } from '../../src/metrics/metrics.service';
+import { decodeCursor } from '../../src/url-fetcher/listing-cursor';
 import * as sinon from 'sinon';
 
 describe('PostgresService', () => {
@@ -147,6 +148,129 @@ describe('PostgresService', () => {
     });
   });
 
+  describe('saveFetchResults history', () => {
+    it('should append every saved result to the history table', async () => {
+      const savedRow = {
+        id: 3,
+        url: 'https://example.com',
+        response_status: 200,
+        response_headers: {},
+        response_body: 'test',
+        content_type: 'text/html',
+        fetched_at: new Date()
+      };
+
+      urlFetchRepository.createQueryBuilder.returns({
+        insert: sinon.stub().returns({
+          into: sinon.stub().returns({
+            values: sinon.stub().returns({
+              onConflict: sinon.stub().returns({
+                returning: sinon.stub().returns({
+                  execute: sinon.stub().resolves({ raw: [savedRow] })
+                })
+              })
+            })
+          })
+        })
+      } as any);
+      dataSource.query.resolves([]);
+
+      const result = await postgresService.saveFetchResults([
+        { url: 'https://example.com', responseStatus: 200, responseBody: 'test' }
+      ]);
+
+      expect(result).to.have.length(1);
+      expect(dataSource.query.calledOnce).to.be.true;
+      expect(dataSource.query.firstCall.args[0]).to.include('INSERT INTO url_fetch_history');
+      expect(dataSource.query.firstCall.args[1]).to.deep.equal([3]);
+    });
+  });
+
+  describe('saveFetchResults change detection', () => {
+    it('should compare bodies against the last stored hash, across failed fetches', async () => {
+      const onConflict = sinon.stub().returns({
+        returning: sinon.stub().returns({ execute: sinon.stub().resolves({ raw: [] }) }),
+      });
+      urlFetchRepository.createQueryBuilder.returns({
+        insert: sinon.stub().returns({
+          into: sinon.stub().returns({ values: sinon.stub().returns({ onConflict }) }),
+        }),
+      } as any);
+
+      await postgresService.saveFetchResults([{ url: 'https://example.com', responseStatus: 200, responseBody: 'A' }]);
+
+      const conflictClause: string = onConflict.firstCall.args[0];
+      // A failed fetch has no hash and is never a change
+      expect(conflictClause).to.include('"changed" = EXCLUDED."content_hash" IS NOT NULL AND EXCLUDED."content_hash" IS DISTINCT FROM COALESCE("url_fetches"."content_hash", (');
+      // After one, the body is compared against the last hash in the history, so A, error, A is not a change
+      expect(conflictClause).to.match(/FROM url_fetch_history\s+WHERE url_fetch_id = "url_fetches"."id" AND content_hash IS NOT NULL\s+ORDER BY fetched_at DESC, id DESC\s+LIMIT 1/);
+    });
+  });
+
+  describe('saveFetchResults for 304 responses', () => {
+    it('should keep the stored body but take the validators and caching headers of the 304', async () => {
+      dataSource.query.onFirstCall().resolves([{ id: 3, url: 'https://example.com', response_status: 200, not_modified: true }]);
+      dataSource.query.resolves([]);
+
+      await postgresService.saveFetchResults([{
+        url: 'https://example.com',
+        responseStatus: 304,
+        responseHeaders: { etag: '"v2"', 'cache-control': 'max-age=60', 'content-length': '0' },
+        requestOptions: { method: 'GET', headers: { 'If-None-Match': '"v1"' } } as any,
+        notModified: true,
+      }]);
+
+      const [query, params] = dataSource.query.firstCall.args;
+      expect(query).to.include('UPDATE url_fetches');
+      expect(query).to.include("response_headers = COALESCE(response_headers, '{}'::jsonb) || $7::jsonb");
+      expect(JSON.parse(params[6])).to.deep.equal({ etag: '"v2"', 'cache-control': 'max-age=60' });
+      expect(JSON.parse(params[7])).to.deep.equal({ method: 'GET', headers: { 'If-None-Match': '"v1"' } });
+      expect(urlFetchRepository.createQueryBuilder.called).to.be.false;
+    });
+  });
+
+  describe('fetch jobs', () => {
+    it('should claim only stale incomplete jobs, skipping rows another instance is claiming', async () => {
+      dataSource.query.resolves([{ id: 7, status: 'running', items: [] }]);
+
+      const jobs = await postgresService.claimStaleFetchJobs(60000);
+
+      const [query, params] = dataSource.query.firstCall.args;
+      expect(query).to.match(/^\s*UPDATE fetch_jobs/);
+      expect(query).to.include("heartbeat_at < now() - make_interval(secs => $1 / 1000.0)");
+      expect(query).to.include('FOR UPDATE SKIP LOCKED');
+      expect(query).to.include('RETURNING *');
+      expect(params).to.deep.equal([60000]);
+      expect(jobs.map(job => job.id)).to.deep.equal([7]);
+    });
+
+    it('should measure the duration of a job from its start', async () => {
+      dataSource.query.resolves([]);
+
+      await postgresService.completeFetchJob(7);
+
+      expect(dataSource.query.firstCall.args[0]).to.include('now() - COALESCE(started_at, created_at)');
+    });
+  });
+
+  describe('getUrlFetchesByUrl', () => {
+    it('should return the full history of a URL, newest first', async () => {
+      const rows = [
+        { id: 2, url_fetch_id: 1, url: 'https://example.com', response_status: 500, fetched_at: new Date('2024-01-02') },
+        { id: 1, url_fetch_id: 1, url: 'https://example.com', response_status: 200, fetched_at: new Date('2024-01-01') }
+      ];
+      dataSource.query.resolves(rows);
+
+      const result = await postgresService.getUrlFetchesByUrl('https://example.com', 10) as any[];
+
+      expect(result).to.have.length(2);
+      expect(result[0].response_status).to.equal(500);
+      expect(result[1].url_fetch_id).to.equal(1);
+      expect(dataSource.query.firstCall.args[0]).to.include('FROM url_fetch_history');
+      expect(dataSource.query.firstCall.args[1]).to.deep.equal(['https://example.com', 10]);
+    });
+  });
+
   describe('getUrlFetchesWithPagination', () => {
     it('should handle database errors during pagination query', async () => {
       const options = {
@@ -167,6 +291,124 @@ describe('PostgresService', () => {
         expect(error.message).to.equal('Service temporarily unavailable');
       }
     });
+
+    it('should filter by final host case-insensitively', async () => {
+      dataSource.query.onFirstCall().resolves([{ total: '0' }]);
+      dataSource.query.onSecondCall().resolves([]);
+
+      await postgresService.getUrlFetchesWithPagination({ page: 1, limit: 10, finalHost: 'WWW.Example.com' });
+
+      expect(dataSource.query.firstCall.args[0]).to.include('final_host = $1');
+      expect(dataSource.query.firstCall.args[1]).to.deep.equal(['www.example.com']);
+    });
+
+    it('should filter by any of the given error codes', async () => {
+      dataSource.query.onFirstCall().resolves([{ total: '0' }]);
+      dataSource.query.onSecondCall().resolves([]);
+
+      await postgresService.getUrlFetchesWithPagination({ page: 1, limit: 10, status: 200, errorCodes: ['timeout', 'dns_failure'] });
+
+      expect(dataSource.query.firstCall.args[0]).to.include('error_code = ANY($2)');
+      expect(dataSource.query.firstCall.args[1]).to.deep.equal([200, ['timeout', 'dns_failure']]);
+    });
+
+    it('should search bodies, rank the matches and add snippets', async () => {
+      dataSource.query.onFirstCall().resolves([{ total: '1' }]);
+      dataSource.query.onSecondCall().resolves([{ id: 1, search_rank: 0.06, search_snippet: 'Order <mark>SKU-4411</mark> now' }]);
+
+      const result = await postgresService.getUrlFetchesWithPagination({ page: 1, limit: 10, status: 200, q: 'SKU-4411' });
+
+      const [countQuery, countParams] = dataSource.query.firstCall.args;
+      expect(countQuery).to.include("@@ websearch_to_tsquery('simple', $2)");
+      expect(countParams).to.deep.equal([200, 'SKU-4411']);
+
+      const [dataQuery, dataParams] = dataSource.query.secondCall.args;
+      expect(dataQuery).to.include('AS search_rank');
+      expect(dataQuery).to.include('ts_headline');
+      expect(dataQuery).to.include('ORDER BY search_rank DESC, fetched_at DESC');
+      expect(dataParams).to.deep.equal([200, 'SKU-4411', 11, 0]);
+      expect(result.data[0]).to.deep.include({ search_snippet: 'Order <mark>SKU-4411</mark> now' });
+      expect(result.nextCursor).to.be.null;
+    });
+
+    it('should hand out cursors for the pages around an offset page', async () => {
+      dataSource.query.onFirstCall().resolves([{ total: '25' }]);
+      dataSource.query.onSecondCall().resolves([
+        { id: 9, cursor_fetched_at: '2024-01-01T12:00:00.000300Z' },
+        { id: 8, cursor_fetched_at: '2024-01-01T11:00:00.000200Z' },
+        { id: 7, cursor_fetched_at: '2024-01-01T10:00:00.000100Z' },
+      ]);
+
+      const result = await postgresService.getUrlFetchesWithPagination({ page: 2, limit: 2 });
+
+      expect(dataSource.query.secondCall.args[0]).to.include('ORDER BY fetched_at DESC, id DESC');
+      expect(dataSource.query.secondCall.args[1]).to.deep.equal([3, 2]);
+      expect(result.data).to.deep.equal([{ id: 9 }, { id: 8 }]);
+      expect(result).to.deep.include({ page: 2, totalItems: 25, totalPages: 13 });
+      expect(decodeCursor(result.nextCursor)).to.deep.equal({ fetchedAt: '2024-01-01T11:00:00.000200Z', id: 8, direction: 'next' });
+      expect(decodeCursor(result.prevCursor)).to.deep.equal({ fetchedAt: '2024-01-01T12:00:00.000300Z', id: 9, direction: 'prev' });
+    });
+
+    it('should continue after a cursor without counting when the total is not wanted', async () => {
+      dataSource.query.resolves([{ id: 5, cursor_fetched_at: '2024-01-01T09:00:00.000000Z' }]);
+      const cursor = { fetchedAt: '2024-01-01T10:00:00.000100Z', id: 7, direction: 'next' as const };
+
+      const result = await postgresService.getUrlFetchesWithPagination({ page: 1, limit: 2, status: 200, cursor, includeTotal: false });
+
+      expect(dataSource.query.calledOnce).to.be.true;
+      const [dataQuery, dataParams] = dataSource.query.firstCall.args;
+      expect(dataQuery).to.include('(fetched_at, id) < ($2::timestamptz, $3)');
+      expect(dataParams).to.deep.equal([200, '2024-01-01T10:00:00.000100Z', 7, 3, 0]);
+      expect(result).to.deep.include({ page: null, totalItems: null, totalPages: null, nextCursor: null });
+      expect(decodeCursor(result.prevCursor)).to.deep.include({ id: 5, direction: 'prev' });
+    });
+
+    it('should read only the requested fields and cut bodies to the preview length', async () => {
+      dataSource.query.resolves([{ id: 3, url: 'https://example.com', response_body: 'Hello', cursor_fetched_at: '2024-01-01T09:00:00.000000Z' }]);
+
+      const result = await postgresService.getUrlFetchesWithPagination({
+        page: 1,
+        limit: 10,
+        status: 200,
+        includeTotal: false,
+        fields: ['url', 'response_body'],
+        bodyPreview: 5,
+      });
+
+      const [dataQuery, dataParams] = dataSource.query.firstCall.args;
+      expect(dataQuery).to.include('SELECT "id", "url", left(response_body, $2) AS response_body, to_char(');
+      expect(dataParams).to.deep.equal([200, 5, 11, 0]);
+      expect(result.data).to.deep.equal([{ id: 3, url: 'https://example.com', response_body: 'Hello' }]);
+    });
+
+    it('should read every serialized field by default', async () => {
+      dataSource.query.resolves([]);
+
+      await postgresService.getUrlFetchesWithPagination({ page: 1, limit: 10, includeTotal: false, bodyPreview: 100 });
+
+      const [dataQuery, dataParams] = dataSource.query.firstCall.args;
+      expect(dataQuery).to.include('"response_status", "response_headers", left(response_body, $1) AS response_body, "content_type"');
+      expect(dataQuery).to.include('"error_message"');
+      expect(dataQuery).to.not.include('SELECT *');
+      expect(dataParams).to.deep.equal([100, 11, 0]);
+    });
+
+    it('should go back from a cursor and keep the newest first order', async () => {
+      dataSource.query.resolves([
+        { id: 8, cursor_fetched_at: '2024-01-01T11:00:00.000200Z' },
+        { id: 9, cursor_fetched_at: '2024-01-01T12:00:00.000300Z' },
+      ]);
+      const cursor = { fetchedAt: '2024-01-01T10:00:00.000100Z', id: 7, direction: 'prev' as const };
+
+      const result = await postgresService.getUrlFetchesWithPagination({ page: 1, limit: 2, cursor, includeTotal: false });
+
+      const [dataQuery] = dataSource.query.firstCall.args;
+      expect(dataQuery).to.include('(fetched_at, id) > ($1::timestamptz, $2)');
+      expect(dataQuery).to.include('ORDER BY fetched_at ASC, id ASC');
+      expect(result.data).to.deep.equal([{ id: 9 }, { id: 8 }]);
+      expect(result.prevCursor).to.be.null;
+      expect(decodeCursor(result.nextCursor)).to.deep.include({ id: 8, direction: 'next' });
+    });
   });
 
 
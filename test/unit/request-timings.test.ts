@@ -0,0 +1,58 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import * as http from 'http';
+import { EventEmitter } from 'events';
+import { RequestTimer } from '../../src/integrations/http/request-timings';
+
+describe('RequestTimer', () => {
+  it('should split a TLS request into consecutive phases', () => {
+    let now = 1000;
+    const timer = new RequestTimer(() => now);
+    const socket = new EventEmitter();
+    const agent = new http.Agent();
+    agent.createConnection = (() => socket) as any;
+    timer.watchAgent(agent);
+
+    timer.mark('dnsStart');
+    now = 1020;
+    timer.mark('dnsEnd');
+    agent.createConnection({});
+    now = 1050;
+    socket.emit('connect');
+    now = 1110;
+    socket.emit('secureConnect');
+    now = 1310;
+    timer.mark('firstByte');
+    now = 1400;
+    timer.mark('downloadEnd');
+
+    expect(timer.getTimings(990)).to.deep.equal({
+      dnsMs: 20,
+      connectMs: 30,
+      tlsMs: 60,
+      ttfbMs: 200,
+      downloadMs: 90,
+      totalMs: 410,
+    });
+  });
+
+  it('should leave out phases that did not happen', () => {
+    let now = 0;
+    const timer = new RequestTimer(() => now);
+
+    timer.mark('dnsStart');
+    now = 5;
+    timer.mark('dnsEnd');
+    now = 105;
+    timer.mark('firstByte');
+
+    expect(timer.getTimings(0)).to.deep.equal({
+      dnsMs: 5,
+      connectMs: null,
+      tlsMs: null,
+      ttfbMs: 100,
+      downloadMs: null,
+      totalMs: 105,
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import {
+  DEFAULT_RETRY_POLICY,
+  computeRetryDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from '../../src/integrations/http/retry-policy';
+
+describe('retry policy', () => {
+  describe('resolveRetryPolicy', () => {
+    it('should merge per-request overrides into the global policy', () => {
+      const policy = resolveRetryPolicy('GET', { maxAttempts: 4, retryOnStatus: [503] });
+
+      expect(policy.maxAttempts).to.equal(4);
+      expect(policy.retryOnStatus).to.deep.equal([503]);
+      expect(policy.retryOnErrorCodes).to.deep.equal(DEFAULT_RETRY_POLICY.retryOnErrorCodes);
+    });
+
+    it('should give non-idempotent methods a single attempt unless asked otherwise', () => {
+      expect(resolveRetryPolicy('POST').maxAttempts).to.equal(1);
+      expect(resolveRetryPolicy('POST', { maxAttempts: 3 }).maxAttempts).to.equal(3);
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000, jitter: 0.5 };
+
+    it('should double the delay with every attempt up to the cap', () => {
+      const noJitter = () => 0;
+
+      expect(computeRetryDelay(policy, 1, noJitter)).to.equal(100);
+      expect(computeRetryDelay(policy, 3, noJitter)).to.equal(400);
+      expect(computeRetryDelay(policy, 10, noJitter)).to.equal(1000);
+    });
+
+    it('should take up to the jitter fraction off the delay', () => {
+      expect(computeRetryDelay(policy, 2, () => 1)).to.equal(100);
+      expect(computeRetryDelay(policy, 2, () => 0.5)).to.equal(150);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-01T12:00:00Z');
+
+      expect(parseRetryAfter('120', now)).to.equal(120000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 12:00:30 GMT', now)).to.equal(30000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 11:00:00 GMT', now)).to.equal(0);
+    });
+
+    it('should ignore missing and invalid values', () => {
+      expect(parseRetryAfter(undefined)).to.be.undefined;
+      expect(parseRetryAfter('soon')).to.be.undefined;
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { RobotsTxt } from '../../src/integrations/http/robots-txt';
+import { RobotsService } from '../../src/integrations/http/robots.service';
+
+const ROBOTS_TXT = [
+  '# Crawlers in general',
+  'User-agent: *',
+  'Disallow: /private',
+  'Allow: /private/press',
+  'Disallow: /*.pdf$',
+  'Crawl-delay: 2',
+  '',
+  'User-agent: URL-Fetcher-Service',
+  'User-agent: OtherBot',
+  'Disallow: /search',
+].join('\n');
+
+describe('RobotsTxt', () => {
+  it('should apply the group of the most specific User-Agent', () => {
+    const robots = RobotsTxt.parse(ROBOTS_TXT);
+
+    expect(robots.isAllowed('/search?q=1', 'URL-Fetcher-Service/1.0').allowed).to.be.false;
+    expect(robots.isAllowed('/private', 'URL-Fetcher-Service/1.0').allowed).to.be.true;
+    expect(robots.isAllowed('/search', 'Probe/2.0').allowed).to.be.true;
+    expect(robots.isAllowed('/private', 'Probe/2.0').allowed).to.be.false;
+  });
+
+  it('should match user-agent lines against the whole product token', () => {
+    const robots = RobotsTxt.parse('User-agent: bot\nDisallow: /\n\nUser-agent: *\nDisallow: /private');
+
+    expect(robots.isAllowed('/page', 'SearchBot/1.0').allowed).to.be.true;
+    expect(robots.isAllowed('/page', 'BOT/1.0').allowed).to.be.false;
+  });
+
+  it('should merge every group listing the same User-Agent', () => {
+    const robots = RobotsTxt.parse([
+      'User-agent: Probe',
+      'Disallow: /search',
+      '',
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: probe',
+      'Disallow: /admin',
+      'Crawl-delay: 3',
+    ].join('\n'));
+
+    expect(robots.isAllowed('/search', 'Probe/2.0').allowed).to.be.false;
+    expect(robots.isAllowed('/admin/users', 'Probe/2.0').allowed).to.be.false;
+    expect(robots.isAllowed('/page', 'Probe/2.0').allowed).to.be.true;
+    expect(robots.getCrawlDelaySeconds('Probe/2.0')).to.equal(3);
+  });
+
+  it('should let the longest matching rule win, and allow win a tie', () => {
+    const robots = RobotsTxt.parse(ROBOTS_TXT);
+
+    expect(robots.isAllowed('/private/press/2024', 'Probe/2.0')).to.deep.equal({
+      allowed: true,
+      rule: { type: 'allow', path: '/private/press' },
+    });
+    expect(RobotsTxt.parse('User-agent: *\nDisallow: /page\nAllow: /page').isAllowed('/page', 'Probe').allowed).to.be.true;
+  });
+
+  it('should support * and $ in paths', () => {
+    const robots = RobotsTxt.parse(ROBOTS_TXT);
+
+    expect(robots.isAllowed('/files/report.pdf', 'Probe/2.0').allowed).to.be.false;
+    expect(robots.isAllowed('/files/report.pdf?download=1', 'Probe/2.0').allowed).to.be.true;
+  });
+
+  it('should read Crawl-delay and ignore empty Disallow lines', () => {
+    const robots = RobotsTxt.parse('User-agent: *\nDisallow:\nCrawl-delay: 1.5');
+
+    expect(robots.getCrawlDelaySeconds('Probe/2.0')).to.equal(1.5);
+    expect(robots.isAllowed('/anything', 'Probe/2.0').allowed).to.be.true;
+  });
+});
+
+describe('RobotsService', () => {
+  it('should cache robots.txt per origin until the TTL runs out', async () => {
+    const robotsService = new RobotsService({ cacheTtlMs: 60000 });
+    let loads = 0;
+    const loader = async () => {
+      loads++;
+      return { responseStatus: 200, body: 'User-agent: *\nDisallow: /private' };
+    };
+
+    const [first, second] = await Promise.all([
+      robotsService.check('https://example.com/private', 'Probe/2.0', loader),
+      robotsService.check('https://example.com/public', 'Probe/2.0', loader),
+    ]);
+
+    expect(loads).to.equal(1);
+    expect(first.decision.allowed).to.be.false;
+    expect(second.decision.allowed).to.be.true;
+    expect(robotsService.getEntries().map(entry => entry.origin)).to.deep.equal(['https://example.com']);
+    expect(robotsService.getEntries(Date.now() + 60000)).to.be.empty;
+  });
+
+  it('should treat network errors as disallowing everything', async () => {
+    const robotsService = new RobotsService();
+
+    const { decision, entry } = await robotsService.check('https://example.com/', 'Probe/2.0', async () => {
+      throw new Error('getaddrinfo ENOTFOUND example.com');
+    });
+
+    expect(decision.allowed).to.be.false;
+    expect(entry.status).to.equal('unreachable');
+    expect(entry.error).to.equal('getaddrinfo ENOTFOUND example.com');
+  });
+
+  it('should space requests Crawl-delay apart, up to the maximum', async () => {
+    const robotsService = new RobotsService({ maxCrawlDelayMs: 5000 });
+    const { entry } = await robotsService.check('https://example.com/', 'Probe/2.0', async () => ({
+      responseStatus: 200,
+      body: 'User-agent: *\nCrawl-delay: 60',
+    }));
+
+    expect(robotsService.reserveCrawlDelay(entry, 'Probe/2.0', 1000)).to.equal(0);
+    expect(robotsService.reserveCrawlDelay(entry, 'Probe/2.0', 2000)).to.equal(4000);
+    expect(robotsService.reserveCrawlDelay(entry, 'Probe/2.0', 2000)).to.equal(9000);
+  });
+});
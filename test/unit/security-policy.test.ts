@@ -0,0 +1,148 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { writeFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SecurityPolicy, loadSecurityPolicy } from '../../src/integrations/security/security-policy';
+import { SecurityService } from '../../src/integrations/security/security.service';
+
+describe('SecurityPolicy', () => {
+  describe('checkHost', () => {
+    it('should deny private ranges and metadata hosts by default', () => {
+      const policy = new SecurityPolicy();
+
+      expect(policy.checkHost('10.1.2.3', 80)).to.deep.include({ allowed: false, reason: 'Private/internal IP addresses are not allowed.' });
+      expect(policy.checkHost('::ffff:7f00:1', 80).allowed).to.be.false;
+      expect(policy.checkHost('metadata.example', 80).reason).to.equal('Cloud metadata servers are not allowed.');
+      expect(policy.checkHost('db.internal', 443).reason).to.equal('Internal and local network hostnames are not allowed.');
+      expect(policy.checkHost('printer.local', 80).reason).to.equal('Internal and local network hostnames are not allowed.');
+      expect(policy.checkHost('example.com', 443).allowed).to.be.true;
+    });
+
+    it('should deny IPv6 addresses that embed IPv4 addresses and site-local addresses', () => {
+      const policy = new SecurityPolicy();
+
+      // IPv4-compatible ::127.0.0.1, IPv4-translated ::ffff:0:127.0.0.1, 6to4 for 10.0.0.1 and deprecated site-local
+      expect(policy.checkAddress('::7f00:1', 80).allowed).to.be.false;
+      expect(policy.checkAddress('::ffff:0:7f00:1', 80).allowed).to.be.false;
+      expect(policy.checkAddress('2002:a00:1::1', 80).allowed).to.be.false;
+      expect(policy.checkAddress('fec0::1', 80).allowed).to.be.false;
+      expect(policy.checkAddress('2606:4700::1111', 443).allowed).to.be.true;
+      expect(policy.checkAddress('93.184.216.34', 443).allowed).to.be.true;
+    });
+
+    it('should let allow rules override deny rules', () => {
+      const policy = new SecurityPolicy({
+        allow: [{ host: 'staging-api.internal', reason: 'Staging test host' }],
+      });
+
+      expect(policy.checkHost('staging-api.internal', 443)).to.deep.include({ allowed: true, reason: 'Staging test host' });
+      expect(policy.checkHost('other.internal', 443).allowed).to.be.false;
+    });
+
+    it('should only allow listed domains when the default action is deny', () => {
+      const policy = new SecurityPolicy({
+        defaultAction: 'deny',
+        allow: [{ host: '*.partner.com' }],
+      });
+
+      expect(policy.checkHost('api.partner.com', 443).allowed).to.be.true;
+      expect(policy.checkHost('eu.api.partner.com', 443).allowed).to.be.true;
+      expect(policy.checkHost('partner.com', 443).allowed).to.be.false;
+      expect(policy.checkHost('partner.com.evil.io', 443).allowed).to.be.false;
+    });
+
+    it('should apply rules with ports only to those ports', () => {
+      const policy = new SecurityPolicy({
+        deny: [{ host: '*.example.com', ports: [8080], reason: 'No admin ports' }],
+      });
+
+      expect(policy.checkHost('app.example.com', 8080)).to.deep.include({ allowed: false, reason: 'No admin ports' });
+      expect(policy.checkHost('app.example.com', 443).allowed).to.be.true;
+    });
+
+    it('should drop the default rules when asked to', () => {
+      const policy = new SecurityPolicy({ includeDefaultRules: false, deny: [{ cidr: '203.0.113.0/24' }] });
+
+      expect(policy.checkHost('10.0.0.1', 80).allowed).to.be.true;
+      expect(policy.checkHost('203.0.113.9', 80).allowed).to.be.false;
+    });
+
+    it('should reject invalid rules', () => {
+      expect(() => new SecurityPolicy({ deny: [{ reason: 'No target' }] })).to.throw('needs a host or a cidr');
+      expect(() => new SecurityPolicy({ deny: [{ cidr: '10.0.0.0/40' }] })).to.throw('not a valid CIDR range');
+    });
+  });
+
+  describe('checkAddress', () => {
+    it('should only apply cidr rules to resolved addresses', () => {
+      const policy = new SecurityPolicy({
+        defaultAction: 'deny',
+        allow: [{ host: 'staging-api.internal' }, { cidr: '10.20.0.5' }],
+      });
+
+      expect(policy.checkAddress('93.184.216.34', 443).allowed).to.be.true;
+      expect(policy.checkAddress('10.20.0.5', 443).allowed).to.be.true;
+      expect(policy.checkAddress('10.20.0.6', 443).allowed).to.be.false;
+    });
+  });
+
+  describe('loadSecurityPolicy', () => {
+    it('should use the default policy without configuration', () => {
+      const policy = loadSecurityPolicy({});
+
+      expect(policy.protocols).to.deep.equal(['http:', 'https:']);
+      expect(policy.defaultAction).to.equal('allow');
+    });
+
+    it('should load an inline JSON policy', () => {
+      const policy = loadSecurityPolicy({ SECURITY_POLICY: '{"protocols": ["https"], "ports": [443]}' });
+
+      expect(policy.protocols).to.deep.equal(['https:']);
+      expect(policy.isPortAllowed(443)).to.be.true;
+      expect(policy.isPortAllowed(8443)).to.be.false;
+    });
+
+    it('should load a YAML policy file', () => {
+      const directory = mkdtempSync(join(tmpdir(), 'security-policy-'));
+      const file = join(directory, 'policy.yaml');
+      writeFileSync(file, [
+        'defaultAction: deny',
+        'allow:',
+        '  - host: "*.partner.com"',
+        '    reason: Partner APIs',
+      ].join('\n'));
+
+      try {
+        const policy = loadSecurityPolicy({ SECURITY_POLICY_FILE: file });
+
+        expect(policy.checkHost('api.partner.com', 443)).to.deep.include({ allowed: true, reason: 'Partner APIs' });
+        expect(policy.checkHost('example.com', 443).allowed).to.be.false;
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should report unparsable policies', () => {
+      expect(() => loadSecurityPolicy({ SECURITY_POLICY: 'allow: [' })).to.throw('Failed to parse security policy from SECURITY_POLICY');
+    });
+  });
+
+  describe('SecurityService with a policy', () => {
+    it('should enforce protocols, ports and hostname rules from the policy', () => {
+      const securityService = new SecurityService(new SecurityPolicy({
+        protocols: ['https'],
+        ports: [443],
+        defaultAction: 'deny',
+        allow: [{ host: 'api.partner.com' }],
+      }));
+
+      expect(securityService.validateUrl('https://api.partner.com/v1').isValid).to.be.true;
+      expect(securityService.validateUrl('http://api.partner.com').error).to.equal(
+        "Protocol 'http:' is not allowed. Only https:// are permitted."
+      );
+      expect(securityService.validateUrl('https://api.partner.com:8443').error).to.equal('Port 8443 is not allowed.');
+      expect(securityService.validateUrl('https://example.com').error).to.equal("Hostname 'example.com' is not allowed.");
+    });
+  });
+});
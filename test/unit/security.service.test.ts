@@ -1,6 +1,8 @@
 import { expect } from 'chai';
-import { describe, it, beforeEach } from 'mocha';
+import { describe, it, beforeEach, afterEach } from 'mocha';
 import { SecurityService } from '../../src/integrations/security/security.service';
+import { promises as dnsPromises } from 'dns';
+import * as sinon from 'sinon';
 
 describe('SecurityService', () => {
   let securityService: SecurityService;
@@ -9,6 +11,10 @@ describe('SecurityService', () => {
     securityService = new SecurityService();
   });
 
+  afterEach(() => {
+    sinon.restore();
+  });
+
   describe('validateUrl', () => {
     describe('Valid URLs', () => {
       it('should accept valid HTTP URLs', () => {
@@ -81,6 +87,36 @@ describe('SecurityService', () => {
         });
       });
 
+      it('should reject CGNAT and other special-purpose IPv4 ranges', () => {
+        ['http://100.64.0.1', 'http://0.0.0.0', 'http://198.18.0.1', 'http://2130706433'].forEach(url => {
+          const result = securityService.validateUrl(url);
+          expect(result.isValid).to.be.false;
+        });
+      });
+
+      it('should reject private IPv6 literals', () => {
+        const privateIPs = [
+          'http://[::1]',
+          'http://[::ffff:127.0.0.1]',
+          'http://[::ffff:10.0.0.1]',
+          'http://[fd00::1]',
+          'http://[fe80::1]',
+          'http://[64:ff9b::a00:1]',
+          'http://[::ffff:0:7f00:1]'
+        ];
+
+        privateIPs.forEach(ip => {
+          const result = securityService.validateUrl(ip);
+          expect(result.isValid, ip).to.be.false;
+          expect(result.error).to.include('Private');
+        });
+      });
+
+      it('should accept public IPv6 literals', () => {
+        const result = securityService.validateUrl('http://[2606:4700::1111]');
+        expect(result.isValid).to.be.true;
+      });
+
       it('should reject cloud metadata servers', () => {
         const result = securityService.validateUrl('http://169.254.169.254');
         expect(result.isValid).to.be.false;
@@ -197,6 +233,12 @@ describe('SecurityService', () => {
       expect(result.user.data[1]).to.equal('itemtwo');
     });
 
+    it('should keep the line structure of response bodies', () => {
+      const body = '<html>\r\n  <body>\x00\n\t<p>Price:\x01 10</p>\n  </body>\n</html>\n';
+
+      expect(securityService.sanitizeBody(body)).to.equal('<html>\r\n  <body>\n\t<p>Price: 10</p>\n  </body>\n</html>\n');
+    });
+
     it('should handle non-string data', () => {
       const input = { number: 123, boolean: true, null: null };
       const result = securityService.sanitizeData(input) as { number: number; boolean: boolean; null: null };
@@ -205,4 +247,64 @@ describe('SecurityService', () => {
       expect(result.null).to.be.null;
     });
   });
-}); 
\ No newline at end of file
+
+  describe('redactHeaders', () => {
+    it('should redact credential-bearing headers', () => {
+      const result = securityService.redactHeaders({
+        Authorization: 'Bearer secret',
+        Cookie: 'session=abc',
+        'X-Api-Key': 'key',
+        'X-Auth-Token': 'token',
+        Accept: 'application/json',
+      });
+
+      expect(result).to.deep.equal({
+        Authorization: '[REDACTED]',
+        Cookie: '[REDACTED]',
+        'X-Api-Key': '[REDACTED]',
+        'X-Auth-Token': '[REDACTED]',
+        Accept: 'application/json',
+      });
+    });
+  });
+
+  describe('resolveUrl', () => {
+    it('should return the resolved address of a public hostname', async () => {
+      sinon.stub(dnsPromises, 'lookup').resolves([{ address: '93.184.216.34', family: 4 }] as any);
+
+      const result = await securityService.resolveUrl('https://example.com');
+
+      expect(result).to.deep.include({ isValid: true, address: '93.184.216.34', family: 4 });
+    });
+
+    it('should reject hostnames that resolve to a private address', async () => {
+      sinon.stub(dnsPromises, 'lookup').resolves([
+        { address: '93.184.216.34', family: 4 },
+        { address: 'fd00::5', family: 6 },
+      ] as any);
+
+      const result = await securityService.resolveUrl('https://rebind.example.com');
+
+      expect(result.isValid).to.be.false;
+      expect(result.error).to.include('resolves to a blocked IP address (fd00::5)');
+    });
+
+    it('should reject hostnames that do not resolve', async () => {
+      sinon.stub(dnsPromises, 'lookup').rejects(Object.assign(new Error('not found'), { code: 'ENOTFOUND' }));
+
+      const result = await securityService.resolveUrl('https://missing.example.com');
+
+      expect(result.isValid).to.be.false;
+      expect(result.error).to.include('ENOTFOUND');
+    });
+
+    it('should not resolve IP literals', async () => {
+      const lookup = sinon.stub(dnsPromises, 'lookup');
+
+      const result = await securityService.resolveUrl('http://[2606:4700::1111]');
+
+      expect(lookup.called).to.be.false;
+      expect(result).to.deep.include({ isValid: true, address: '2606:4700::1111', family: 6 });
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { TLSSocket } from 'tls';
+import { Socket } from 'net';
+import { getCertificateInfo, getTlsError } from '../../src/integrations/http/tls-certificate';
+
+const tlsSocket = (certificate: object) => Object.assign(Object.create(TLSSocket.prototype), {
+  getPeerCertificate: () => certificate,
+  getProtocol: () => 'TLSv1.3',
+  getCipher: () => ({ name: 'TLS_AES_256_GCM_SHA384', version: 'TLSv1.3' }),
+});
+
+describe('tls-certificate', () => {
+  describe('getCertificateInfo', () => {
+    it('should describe the peer certificate and the connection', () => {
+      const info = getCertificateInfo(tlsSocket({
+        subject: { CN: 'example.com', OU: ['Web', 'Ops'] },
+        issuer: { C: 'US', O: 'Example CA', CN: 'Example CA R3' },
+        subjectaltname: 'DNS:example.com, DNS:www.example.com',
+        valid_from: 'Jan 15 00:00:00 2024 GMT',
+        valid_to: 'Apr 14 23:59:59 2024 GMT',
+        fingerprint256: 'AB:CD:EF',
+        serialNumber: '0A1B2C',
+      }));
+
+      expect(info).to.deep.equal({
+        subject: 'CN=example.com, OU=Web+Ops',
+        issuer: 'C=US, O=Example CA, CN=Example CA R3',
+        subjectAltNames: ['DNS:example.com', 'DNS:www.example.com'],
+        validFrom: '2024-01-15T00:00:00.000Z',
+        validTo: '2024-04-14T23:59:59.000Z',
+        fingerprint256: 'AB:CD:EF',
+        serialNumber: '0A1B2C',
+        protocol: 'TLSv1.3',
+        cipher: 'TLS_AES_256_GCM_SHA384',
+      });
+    });
+
+    it('should return null for plain sockets and missing certificates', () => {
+      expect(getCertificateInfo(new Socket())).to.be.null;
+      expect(getCertificateInfo(undefined)).to.be.null;
+      expect(getCertificateInfo(tlsSocket({}))).to.be.null;
+    });
+  });
+
+  describe('getTlsError', () => {
+    it('should classify certificate and handshake failures', () => {
+      expect(getTlsError({ code: 'CERT_HAS_EXPIRED', message: 'certificate has expired' })).to.deep.equal({
+        code: 'CERT_HAS_EXPIRED',
+        reason: 'expired',
+        message: 'certificate has expired',
+      });
+      expect(getTlsError({ code: 'ERR_TLS_CERT_ALTNAME_INVALID' }).reason).to.equal('hostname_mismatch');
+      expect(getTlsError({ code: 'ERR_SSL_WRONG_VERSION_NUMBER' }).reason).to.equal('handshake_failed');
+    });
+
+    it('should ignore errors unrelated to TLS', () => {
+      expect(getTlsError({ code: 'ECONNREFUSED', message: 'connect ECONNREFUSED' })).to.be.undefined;
+      expect(getTlsError({ message: 'Network Error' })).to.be.undefined;
+    });
+  });
+});
@@ -4,26 +4,42 @@ import { UrlFetcherService } from '../../src/url-fetcher/url-fetcher.service';
 import { HttpService } from '../../src/integrations/http/http.service';
 import { PostgresService } from '../../src/integrations/postgres/postgres.service';
 import { SecurityService } from '../../src/integrations/security/security.service';
+import { FetchEventsService } from '../../src/url-fetcher/fetch-events.service';
 import { CreateUrlFetchDto } from '../../src/url-fetcher/dto/create-url-fetch.dto';
 import { UrlFetch } from '../../src/url-fetcher/entities/url-fetch.entity';
+import { UrlFetchHistory } from '../../src/url-fetcher/entities/url-fetch-history.entity';
+import { BlobStore } from '../../src/integrations/blob-store/blob-store';
+import { HostSchedulerService } from '../../src/url-fetcher/host-scheduler.service';
+import { MetricsService } from '../../src/metrics/metrics.service';
+import { FetchCacheService } from '../../src/url-fetcher/fetch-cache.service';
+import { MemoryCacheStore } from '../../src/integrations/cache-store/memory-cache-store';
 import * as sinon from 'sinon';
-import { BadRequestException } from '@nestjs/common';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
 
 describe('UrlFetcherService', () => {
   let urlFetcherService: UrlFetcherService;
   let httpService: sinon.SinonStubbedInstance<HttpService>;
   let postgresService: sinon.SinonStubbedInstance<PostgresService>;
   let securityService: sinon.SinonStubbedInstance<SecurityService>;
+  let fetchEventsService: FetchEventsService;
+  let blobStore: { put: sinon.SinonStub; get: sinon.SinonStub };
 
   beforeEach(() => {
     httpService = sinon.createStubInstance(HttpService);
     postgresService = sinon.createStubInstance(PostgresService);
+    postgresService.getConditionalValidators.resolves(new Map());
     securityService = sinon.createStubInstance(SecurityService);
+    fetchEventsService = new FetchEventsService();
+    blobStore = { put: sinon.stub().resolves(), get: sinon.stub().resolves(null) };
 
     urlFetcherService = new UrlFetcherService(
       httpService as any,
       postgresService as any,
-      securityService as any
+      securityService as any,
+      fetchEventsService,
+      new HostSchedulerService(sinon.createStubInstance(MetricsService) as any, { hostDelayMs: 0 }),
+      blobStore as BlobStore,
+      new FetchCacheService(new MemoryCacheStore(100), sinon.createStubInstance(MetricsService) as any, { enabled: false }),
     );
   });
 
@@ -87,7 +103,7 @@ describe('UrlFetcherService', () => {
 
       const result = await urlFetcherService.fetchUrls(dto);
 
-      expect(result).to.deep.equal(mockSavedResults);
+      expect(result).to.deep.equal(mockSavedResults.map(saved => ({ ...saved, cache_hit: false })));
       expect(securityService.validateUrls.calledOnceWith(dto.urls)).to.be.true;
       expect(httpService.fetchUrl.calledTwice).to.be.true;
       expect(postgresService.saveFetchResults.calledOnce).to.be.true;
@@ -140,6 +156,42 @@ describe('UrlFetcherService', () => {
       }
     });
 
+    it('should reject invalid URLs individually in partial mode', async () => {
+      securityService.validateUrls.returns({
+        validUrls: ['https://example.com/', 'https://httpbin.org/'],
+        invalidUrls: [{ url: 'http://localhost', error: 'Hostname localhost is not allowed' }]
+      });
+      httpService.fetchUrl.callsFake(async url => ({ url, responseStatus: 200, responseBody: 'ok' }));
+      postgresService.saveFetchResults.callsFake(async results =>
+        results.map((result, index) => ({ id: index + 1, url: result.url, response_status: 200 })) as any);
+
+      const items = await urlFetcherService.fetchUrlsPartially({
+        urls: ['https://example.com', 'http://localhost', 'https://httpbin.org'],
+        partial: true,
+      });
+
+      expect(items.map(({ url, status, error }) => ({ url, status, error }))).to.deep.equal([
+        { url: 'https://example.com', status: 201, error: undefined },
+        { url: 'http://localhost', status: 400, error: 'Hostname localhost is not allowed' },
+        { url: 'https://httpbin.org', status: 201, error: undefined },
+      ]);
+      expect(items[2].data).to.deep.include({ id: 2, url: 'https://httpbin.org/' });
+      expect(httpService.fetchUrl.getCalls().map(call => call.args[0])).to.deep.equal(['https://example.com/', 'https://httpbin.org/']);
+    });
+
+    it('should fetch nothing in partial mode when every URL is rejected', async () => {
+      securityService.validateUrls.returns({
+        validUrls: [],
+        invalidUrls: [{ url: 'http://localhost', error: 'Hostname localhost is not allowed' }]
+      });
+
+      const items = await urlFetcherService.fetchUrlsPartially({ urls: ['http://localhost'], partial: true });
+
+      expect(items).to.deep.equal([{ url: 'http://localhost', status: 400, error: 'Hostname localhost is not allowed' }]);
+      expect(httpService.fetchUrl.called).to.be.false;
+      expect(postgresService.saveFetchResults.called).to.be.false;
+    });
+
     it('should handle individual URL fetch failures gracefully', async () => {
       const dto: CreateUrlFetchDto = {
         urls: ['https://example.com', 'https://invalid-site.com']
@@ -183,10 +235,38 @@ describe('UrlFetcherService', () => {
 
       const result = await urlFetcherService.fetchUrls(dto);
 
-      expect(result).to.deep.equal(mockSavedResults);
+      expect(result).to.deep.equal(mockSavedResults.map(saved => ({ ...saved, cache_hit: false })));
       expect(postgresService.saveFetchResults.calledOnce).to.be.true;
     });
 
+    it('should publish an event for every stored result', async () => {
+      const dto: CreateUrlFetchDto = {
+        urls: ['https://example.com', 'https://invalid-site.com']
+      };
+
+      const mockSavedResults = [
+        { id: 1, url: 'https://example.com', response_status: 200 },
+        { id: 2, url: 'https://invalid-site.com', response_status: null }
+      ];
+
+      securityService.validateUrls.returns({
+        validUrls: dto.urls,
+        invalidUrls: []
+      });
+      httpService.fetchUrl.onFirstCall().resolves({ url: 'https://example.com', responseStatus: 200 });
+      httpService.fetchUrl.onSecondCall().resolves({ url: 'https://invalid-site.com', error: 'Network Error' });
+      postgresService.saveFetchResults.resolves(mockSavedResults as any);
+
+      const events = [];
+      const subscription = fetchEventsService.storedFetches$.subscribe(event => events.push(event));
+
+      await urlFetcherService.fetchUrls(dto);
+      subscription.unsubscribe();
+
+      expect(events.map(event => event.urlFetch.id)).to.deep.equal([1, 2]);
+      expect(events.map(event => event.failed)).to.deep.equal([false, true]);
+    });
+
     it('should sanitize data before saving', async () => {
       const dto: CreateUrlFetchDto = {
         urls: ['https://example.com']
@@ -218,7 +298,71 @@ describe('UrlFetcherService', () => {
 
       await urlFetcherService.fetchUrls(dto);
 
-      expect(securityService.sanitizeData.calledThrice).to.be.true;
+      expect(securityService.sanitizeData.calledTwice).to.be.true;
+      expect(securityService.sanitizeBody.calledOnceWith('<html>Test\x01content</html>')).to.be.true;
+      expect(postgresService.saveFetchResults.calledOnce).to.be.true;
+    });
+
+    it('should store binary bodies in the blob store without sanitizing them', async () => {
+      const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]);
+      securityService.validateUrls.returns({ validUrls: ['https://example.com/logo.png'], invalidUrls: [] });
+      securityService.sanitizeData.callsFake(data => data);
+      httpService.fetchUrl.resolves({
+        url: 'https://example.com/logo.png',
+        responseStatus: 200,
+        responseHeaders: { 'content-type': 'image/png' },
+        responseBytes: bytes,
+        isBinary: true,
+        contentType: 'image/png',
+      });
+      postgresService.saveFetchResults.resolves([]);
+
+      await urlFetcherService.fetchUrls({ urls: ['https://example.com/logo.png'] });
+
+      expect(blobStore.put.calledOnce).to.be.true;
+      expect(blobStore.put.firstCall.args[0]).to.match(/^[a-f0-9]{64}$/);
+      expect(blobStore.put.firstCall.args[1]).to.equal(bytes);
+      expect(securityService.sanitizeBody.called).to.be.false;
+      const [saved] = postgresService.saveFetchResults.firstCall.args[0];
+      expect(saved.responseBody).to.be.undefined;
+      expect(saved.responseBytes).to.equal(bytes);
+    });
+
+    it('should send the stored validators of GET requests as conditional headers', async () => {
+      securityService.validateUrls.returns({ validUrls: ['https://example.com/', 'https://api.example.com/items'], invalidUrls: [] });
+      postgresService.getConditionalValidators.resolves(new Map([
+        ['https://example.com/', { etag: '"v1"', lastModified: 'Mon, 15 Jan 2024 10:00:00 GMT' }],
+      ]));
+      httpService.fetchUrl.callsFake(async url => ({ url, responseStatus: 304, notModified: true }));
+      postgresService.saveFetchResults.resolves([]);
+
+      await urlFetcherService.fetchUrls({
+        urls: ['https://example.com/', { url: 'https://api.example.com/items', method: 'POST', body: '{}' }],
+      });
+
+      expect(postgresService.getConditionalValidators.firstCall.args[0]).to.deep.equal(['https://example.com/']);
+      expect(httpService.fetchUrl.firstCall.args[1]).to.deep.equal({
+        conditional: { etag: '"v1"', lastModified: 'Mon, 15 Jan 2024 10:00:00 GMT' },
+      });
+      expect(httpService.fetchUrl.secondCall.args[1]).to.deep.equal({ method: 'POST', body: '{}' });
+      expect(postgresService.saveFetchResults.firstCall.args[0][0].notModified).to.be.true;
+    });
+
+    it('should serve fresh results from the cache without fetching again', async () => {
+      securityService.validateUrls.returns({ validUrls: ['https://example.com/'], invalidUrls: [] });
+      securityService.sanitizeData.callsFake(data => data);
+      httpService.fetchUrl.resolves({ url: 'https://example.com/', responseStatus: 200, responseHeaders: {}, responseBody: 'Hello' });
+      postgresService.saveFetchResults.resolves([
+        { id: 7, url: 'https://example.com/', response_status: 200, response_headers: {}, response_body: 'Hello' } as any,
+      ]);
+
+      const dto: CreateUrlFetchDto = { urls: [{ url: 'https://example.com/', maxAgeSeconds: 60 }] };
+      const [first] = await urlFetcherService.fetchUrls(dto) as any[];
+      const [second] = await urlFetcherService.fetchUrls(dto) as any[];
+
+      expect(first).to.include({ id: 7, cache_hit: false });
+      expect(second).to.include({ id: 7, cache_hit: true });
+      expect(httpService.fetchUrl.calledOnce).to.be.true;
       expect(postgresService.saveFetchResults.calledOnce).to.be.true;
     });
 
@@ -259,6 +403,45 @@ describe('UrlFetcherService', () => {
       expect(result[0].url).to.equal('https://example.com');
       expect(postgresService.saveFetchResults.calledOnce).to.be.true;
     });
+
+    it('should fetch request objects with their options and store redacted request options', async () => {
+      const dto: CreateUrlFetchDto = {
+        urls: [
+          { url: 'https://api.example.com/items', method: 'POST', body: '{}', headers: { Authorization: 'Bearer secret' } },
+          'https://example.com',
+        ]
+      };
+
+      const requestOptions = {
+        method: 'POST',
+        headers: { Authorization: 'Bearer secret' },
+        body: '{}',
+        timeoutMs: 5000,
+        maxRedirects: 3,
+        userAgent: 'URL-Fetcher-Service/1.0',
+      };
+
+      securityService.validateUrls.returns({
+        validUrls: ['https://api.example.com/items', 'https://example.com/'],
+        invalidUrls: []
+      });
+      securityService.redactHeaders.returns({ Authorization: '[REDACTED]' });
+      httpService.fetchUrl.onFirstCall().resolves({ url: 'https://api.example.com/items', responseStatus: 201, requestOptions });
+      httpService.fetchUrl.onSecondCall().resolves({ url: 'https://example.com/', responseStatus: 200 });
+      postgresService.saveFetchResults.resolves([]);
+
+      await urlFetcherService.fetchUrls(dto);
+
+      expect(securityService.validateUrls.calledOnceWith(['https://api.example.com/items', 'https://example.com'])).to.be.true;
+      expect(httpService.fetchUrl.firstCall.args).to.deep.equal([
+        'https://api.example.com/items',
+        { method: 'POST', body: '{}', headers: { Authorization: 'Bearer secret' } },
+      ]);
+      expect(httpService.fetchUrl.secondCall.args).to.deep.equal(['https://example.com/', {}]);
+
+      const [saved] = postgresService.saveFetchResults.firstCall.args[0];
+      expect(saved.requestOptions).to.deep.equal({ ...requestOptions, headers: { Authorization: '[REDACTED]' } });
+    });
   });
 
   describe('getUrlFetchesWithPagination', () => {
@@ -275,7 +458,9 @@ describe('UrlFetcherService', () => {
         page: 1,
         limit: 10,
         totalPages: 0,
-        totalItems: 0
+        totalItems: 0,
+        nextCursor: null,
+        prevCursor: null
       };
 
       postgresService.getUrlFetchesWithPagination.resolves(expectedResult);
@@ -318,5 +503,150 @@ describe('UrlFetcherService', () => {
     });
   });
 
+  describe('getUrlFetchBody', () => {
+    it('should read binary bodies from the blob store', async () => {
+      const bytes = Buffer.from('%PDF-1.7');
+      postgresService.getUrlFetchById.resolves({
+        id: 1,
+        content_type: 'application/pdf',
+        content_hash: 'abc123',
+        is_binary: true,
+        response_body: null,
+      } as any);
+      blobStore.get.withArgs('abc123').resolves(bytes);
+
+      const result = await urlFetcherService.getUrlFetchBody(1);
+
+      expect(result).to.deep.equal({ contentType: 'application/pdf', body: bytes });
+    });
+
+    it('should return text bodies as UTF-8 bytes', async () => {
+      postgresService.getUrlFetchById.resolves({
+        id: 2,
+        content_type: 'text/plain; charset=utf-8',
+        is_binary: false,
+        response_body: 'héllo',
+      } as any);
+
+      const result = await urlFetcherService.getUrlFetchBody(2);
+
+      expect(result.body.equals(Buffer.from('héllo', 'utf8'))).to.be.true;
+      expect(blobStore.get.called).to.be.false;
+    });
+
+    it('should return null for unknown ids and throw when no body is stored', async () => {
+      postgresService.getUrlFetchById.withArgs(99).resolves(null);
+      postgresService.getUrlFetchById.withArgs(3).resolves({ id: 3, response_body: null, is_binary: false } as any);
+
+      expect(await urlFetcherService.getUrlFetchBody(99)).to.be.null;
+
+      try {
+        await urlFetcherService.getUrlFetchBody(3);
+        expect.fail('Should have thrown NotFoundException');
+      } catch (error) {
+        expect(error).to.be.instanceOf(NotFoundException);
+      }
+    });
+  });
+
+  describe('getUrlFetchDiff', () => {
+    const createHistoryEntry = (id: number, body: string, headers: Record<string, unknown>): UrlFetchHistory => {
+      const entry = new UrlFetchHistory();
+      entry.id = id;
+      entry.urlFetchId = 1;
+      entry.url = 'https://example.com/';
+      entry.responseStatus = 200;
+      entry.responseBody = body;
+      entry.responseHeaders = headers;
+      entry.contentHash = `hash-of-${body}`;
+      entry.fetchedAt = new Date(`2024-01-0${id}T00:00:00Z`);
+      return entry;
+    };
+
+    it('should diff the latest fetch against the previous one by default', async () => {
+      postgresService.getRecentHistoryForUrlFetch.resolves([
+        createHistoryEntry(2, 'new body\n', { etag: '"b"' }),
+        createHistoryEntry(1, 'old body\n', { etag: '"a"' }),
+      ]);
+
+      const result = await urlFetcherService.getUrlFetchDiff(1);
+
+      expect(result.from.history_id).to.equal(1);
+      expect(result.to.history_id).to.equal(2);
+      expect(result.changed).to.be.true;
+      expect(result.body_diff).to.include('-old body');
+      expect(result.body_diff).to.include('+new body');
+      expect(result.headers_diff.changed).to.deep.equal({ etag: { from: '"a"', to: '"b"' } });
+      expect(postgresService.getRecentHistoryForUrlFetch.calledOnceWith(1, 2)).to.be.true;
+    });
+
+    it('should diff against an explicit history entry', async () => {
+      postgresService.getRecentHistoryForUrlFetch.resolves([createHistoryEntry(3, 'same\n', {})]);
+      postgresService.getUrlFetchHistoryEntry.resolves(createHistoryEntry(1, 'same\n', {}));
+
+      const result = await urlFetcherService.getUrlFetchDiff(1, 1);
+
+      expect(result.from.history_id).to.equal(1);
+      expect(result.changed).to.be.false;
+      expect(postgresService.getUrlFetchHistoryEntry.calledOnceWith(1)).to.be.true;
+    });
+
+    it('should not diff against a history entry of another URL fetch', async () => {
+      const otherEntry = createHistoryEntry(5, 'other page\n', {});
+      otherEntry.urlFetchId = 2;
+      postgresService.getRecentHistoryForUrlFetch.resolves([createHistoryEntry(3, 'same\n', {})]);
+      postgresService.getUrlFetchHistoryEntry.resolves(otherEntry);
+
+      try {
+        await urlFetcherService.getUrlFetchDiff(1, 5);
+        expect.fail('Should have thrown NotFoundException');
+      } catch (error) {
+        expect(error).to.be.instanceOf(NotFoundException);
+        expect(error.message).to.equal('URL fetch history entry 5 not found for URL fetch 1');
+      }
+    });
+
+    it('should not diff binary bodies', async () => {
+      const latest = createHistoryEntry(2, null, {});
+      latest.isBinary = true;
+      latest.contentHash = 'hash-of-image-v2';
+      postgresService.getRecentHistoryForUrlFetch.resolves([latest, createHistoryEntry(1, 'text\n', {})]);
+
+      const result = await urlFetcherService.getUrlFetchDiff(1);
+
+      expect(result.changed).to.be.true;
+      expect(result.body_diff).to.be.null;
+    });
+
+    it('should return null for unknown URL fetches', async () => {
+      postgresService.getRecentHistoryForUrlFetch.resolves([]);
+
+      const result = await urlFetcherService.getUrlFetchDiff(99);
+
+      expect(result).to.be.null;
+    });
 
-}); 
\ No newline at end of file
+    it('should reject diffs without an earlier fetch', async () => {
+      postgresService.getRecentHistoryForUrlFetch.resolves([createHistoryEntry(1, 'only\n', {})]);
+
+      try {
+        await urlFetcherService.getUrlFetchDiff(1);
+        expect.fail('Should have thrown BadRequestException');
+      } catch (error) {
+        expect(error).to.be.instanceOf(BadRequestException);
+      }
+    });
+
+    it('should throw NotFoundException for unknown comparison entries', async () => {
+      postgresService.getRecentHistoryForUrlFetch.resolves([createHistoryEntry(1, 'only\n', {})]);
+      postgresService.getUrlFetchHistoryEntry.resolves(null);
+
+      try {
+        await urlFetcherService.getUrlFetchDiff(1, 42);
+        expect.fail('Should have thrown NotFoundException');
+      } catch (error) {
+        expect(error).to.be.instanceOf(NotFoundException);
+      }
+    });
+  });
+});
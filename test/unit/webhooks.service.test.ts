@@ -0,0 +1,172 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { createHmac } from 'crypto';
+import { WebhooksService } from '../../src/webhooks/webhooks.service';
+import { HttpService } from '../../src/integrations/http/http.service';
+import { PostgresService } from '../../src/integrations/postgres/postgres.service';
+import { SecurityService } from '../../src/integrations/security/security.service';
+import { FetchEventsService, StoredFetchEvent } from '../../src/url-fetcher/fetch-events.service';
+import { WebhookSubscription, WebhookEvent } from '../../src/webhooks/entities/webhook-subscription.entity';
+import { WebhookDelivery } from '../../src/webhooks/entities/webhook-delivery.entity';
+import { UrlFetchHistory } from '../../src/url-fetcher/entities/url-fetch-history.entity';
+import * as sinon from 'sinon';
+import { BadRequestException } from '@nestjs/common';
+
+describe('WebhooksService', () => {
+  let webhooksService: WebhooksService;
+  let postgresService: sinon.SinonStubbedInstance<PostgresService>;
+  let httpService: sinon.SinonStubbedInstance<HttpService>;
+  let securityService: SecurityService;
+
+  const secret = 'a-very-long-shared-secret';
+
+  const createSubscription = (events: WebhookEvent[]): WebhookSubscription => {
+    const subscription = new WebhookSubscription();
+    subscription.id = 1;
+    subscription.targetUrl = 'https://hooks.example.com/fetches';
+    subscription.events = events;
+    subscription.secret = secret;
+    subscription.enabled = true;
+    return subscription;
+  };
+
+  const urlFetch = {
+    id: 10,
+    url: 'https://example.com/',
+    response_status: 200,
+    response_headers: {},
+    response_body: 'ok',
+    content_type: 'text/plain',
+    content_hash: 'abc',
+    changed: false,
+    fetched_at: new Date('2024-01-01T00:00:00Z')
+  } as StoredFetchEvent['urlFetch'];
+
+  beforeEach(() => {
+    postgresService = sinon.createStubInstance(PostgresService);
+    httpService = sinon.createStubInstance(HttpService);
+    securityService = new SecurityService();
+
+    postgresService.createWebhookDelivery.callsFake(async (delivery) => {
+      return Object.assign(new WebhookDelivery(), { id: 100 + delivery.attempt }, delivery);
+    });
+
+    webhooksService = new WebhooksService(
+      postgresService as any,
+      securityService,
+      httpService as any,
+      new FetchEventsService()
+    );
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe('createSubscription', () => {
+    it('should reject targets that fail security validation', async () => {
+      try {
+        await webhooksService.createSubscription({
+          targetUrl: 'http://169.254.169.254/latest/meta-data',
+          events: ['fetch.completed'],
+          secret
+        });
+        expect.fail('Should have thrown BadRequestException');
+      } catch (error) {
+        expect(error).to.be.instanceOf(BadRequestException);
+        expect(error.message).to.include('security validation');
+      }
+
+      expect(postgresService.createWebhookSubscription.called).to.be.false;
+    });
+  });
+
+  describe('handleStoredFetch', () => {
+    it('should deliver a signed payload to matching subscriptions', async () => {
+      postgresService.getWebhookSubscriptions.resolves([createSubscription(['fetch.completed'])]);
+      httpService.postJson.resolves({ status: 204, durationMs: 12 });
+
+      await webhooksService.handleStoredFetch({ urlFetch, failed: false });
+
+      const [targetUrl, body, headers] = httpService.postJson.firstCall.args;
+      expect(targetUrl).to.equal('https://hooks.example.com/fetches');
+      expect(JSON.parse(body)).to.deep.equal(JSON.parse(JSON.stringify(urlFetch)));
+      expect(headers['X-Webhook-Event']).to.equal('fetch.completed');
+      expect(headers['X-Webhook-Signature']).to.equal(
+        `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+      );
+      expect(postgresService.completeWebhookDelivery.firstCall.args[1].status).to.equal('succeeded');
+    });
+
+    it('should skip subscriptions that do not listen to the event', async () => {
+      postgresService.getWebhookSubscriptions.resolves([createSubscription(['fetch.failed'])]);
+
+      await webhooksService.handleStoredFetch({ urlFetch, failed: false });
+
+      expect(postgresService.createWebhookDelivery.called).to.be.false;
+      expect(httpService.postJson.called).to.be.false;
+    });
+
+    it('should raise fetch.status_changed when the status differs from the previous fetch', async () => {
+      const previous = Object.assign(new UrlFetchHistory(), { id: 1, responseStatus: 503 });
+      const latest = Object.assign(new UrlFetchHistory(), { id: 2, responseStatus: 200 });
+      postgresService.getWebhookSubscriptions.resolves([createSubscription(['fetch.status_changed'])]);
+      postgresService.getRecentHistoryForUrlFetch.resolves([latest, previous]);
+      httpService.postJson.resolves({ status: 200, durationMs: 5 });
+
+      await webhooksService.handleStoredFetch({ urlFetch, failed: false });
+
+      expect(httpService.postJson.calledOnce).to.be.true;
+      expect(httpService.postJson.firstCall.args[2]['X-Webhook-Event']).to.equal('fetch.status_changed');
+    });
+
+    it('should schedule a retry with backoff when a delivery fails', async () => {
+      postgresService.getWebhookSubscriptions.resolves([createSubscription(['fetch.failed'])]);
+      httpService.postJson.resolves({ status: 500, durationMs: 5 });
+
+      const before = Date.now();
+      await webhooksService.handleStoredFetch({ urlFetch: { ...urlFetch, response_status: null }, failed: true });
+
+      expect(postgresService.completeWebhookDelivery.firstCall.args[1]).to.include({ status: 'failed', error: 'HTTP 500' });
+      const retry = postgresService.createWebhookDelivery.secondCall.args[0];
+      expect(retry.attempt).to.equal(2);
+      expect(retry.nextAttemptAt.getTime()).to.be.at.least(before + 5000);
+    });
+  });
+
+  describe('retryDueDeliveries', () => {
+    const createDelivery = (): WebhookDelivery => Object.assign(new WebhookDelivery(), {
+      id: 102,
+      subscriptionId: 1,
+      event: 'fetch.failed',
+      payload: { event: 'fetch.failed' },
+      attempt: 2,
+    });
+
+    it('should retry due deliveries of enabled subscriptions', async () => {
+      postgresService.getDueWebhookDeliveries.resolves([createDelivery()]);
+      postgresService.getWebhookSubscriptionById.resolves(createSubscription(['fetch.failed']));
+      httpService.postJson.resolves({ status: 204, durationMs: 5 });
+
+      await webhooksService.retryDueDeliveries();
+
+      expect(httpService.postJson.calledOnce).to.be.true;
+      expect(postgresService.completeWebhookDelivery.firstCall.args).to.deep.equal([
+        102, { status: 'succeeded', responseStatus: 204, error: undefined, durationMs: 5 },
+      ]);
+    });
+
+    it('should cancel due deliveries of disabled subscriptions', async () => {
+      postgresService.getDueWebhookDeliveries.resolves([createDelivery()]);
+      postgresService.getWebhookSubscriptionById.resolves({ ...createSubscription(['fetch.failed']), enabled: false } as WebhookSubscription);
+
+      await webhooksService.retryDueDeliveries();
+
+      expect(httpService.postJson.called).to.be.false;
+      expect(postgresService.completeWebhookDelivery.firstCall.args).to.deep.equal([
+        102, { status: 'failed', error: 'Subscription is disabled', durationMs: 0 },
+      ]);
+      expect(postgresService.createWebhookDelivery.called).to.be.false;
+    });
+  });
+});